@@ -1,26 +1,112 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { TerrainControls, type TerrainParams } from "@/components/terrain-controls";
 import { TerrainViewer } from "@/components/terrain-viewer";
 import { ScadViewer } from "@/components/scad-viewer";
-import { HeightmapPreview } from "@/components/heightmap-preview";
+import { HeightmapPreview, type PreviewOverlay } from "@/components/heightmap-preview";
 import { LogPane } from "@/components/log-pane";
-import { generateHeightmap, type HeightmapResult } from "@/lib/terrain";
-import { heightmapToDataUrl } from "@/lib/heightmap";
+import { TileCachePanel } from "@/components/tile-cache-panel";
+import { OutlinePanel } from "@/components/outline-panel";
+import { DemPanel } from "@/components/dem-panel";
+import { HeightmapImportPanel } from "@/components/heightmap-import-panel";
+import { CostLimitsPanel } from "@/components/cost-limits-panel";
+import { WaterPanel } from "@/components/water-panel";
+import { SmoothingPanel } from "@/components/smoothing-panel";
+import { HeightCurvePanel } from "@/components/height-curve-panel";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  generateHeightmap,
+  outputGridSize,
+  planTiles,
+  type HeightmapResult,
+} from "@/lib/terrain";
+import { rasterBbox, rasterToHeightmap, type GeoRaster } from "@/lib/raster";
+import { heightmapToDataUrl, maskToOverlayDataUrl } from "@/lib/heightmap";
 import { heightmapToDat } from "@/lib/scad-template";
 import { useOpenscadWorker } from "@/hooks/use-openscad-worker";
 import { downloadBlob } from "@/lib/download";
 import { loadDemoTerrainAssets } from "@/lib/demo-assets";
+import { heightmapMetadata } from "@/lib/heightmap-import";
+import { processHeightmap, type ProcessingSettings } from "@/lib/heightmap-processing";
+import { describeWater, type WaterSettings } from "@/lib/water";
+import { describeSmoothing, type SmoothingSettings } from "@/lib/smoothing";
+import {
+  describeHeightCurve,
+  LINEAR_KNOTS,
+  validateHeightWindow,
+  type HeightCurveSettings,
+} from "@/lib/height-curve";
+import { resolveModelScale, validateModelScale } from "@/lib/model-scale";
+import { baseDatum, describeBaseReference } from "@/lib/base-reference";
+import { effectiveMeshBackend } from "@/lib/mesh";
+import { DEFAULT_ELEVATION_SOURCE, describeElevationSource } from "@/lib/elevation-source";
+import { isAbortError } from "@/lib/fetch-scheduler";
+import { applyBbox, areaToBbox, bboxToArea, lonSpan, normalizeLon, type BBox } from "@/lib/geo";
+import { checkMercatorLatitudes, localAreaBbox } from "@/lib/projection";
+import {
+  checkCost,
+  estimateCost,
+  getCostLimits,
+  setCostLimits,
+  type CostLimits,
+} from "@/lib/cost-estimate";
+import {
+  applyOutlineMask,
+  outlineBbox,
+  outlineToGrid,
+  rasterizeRings,
+  type Outline,
+} from "@/lib/geojson";
 import { Download, Box, FileCode, Github, Star } from "lucide-react";
 
-const DEFAULT_PARAMS: TerrainParams = {
+const DEFAULT_AREA = {
   centerLat: 27.9881,
   centerLon: 86.925,
-  areaKm: 20,
+  areaWidthKm: 20,
+  areaHeightKm: 20,
+};
+
+const DEFAULT_PARAMS: TerrainParams = {
+  ...DEFAULT_AREA,
+  areaMode: "center",
+  bbox: areaToBbox(DEFAULT_AREA),
   outputPx: 200,
+  sizeMode: "size",
   modelMm: 100,
+  scaleDenominator: 100000,
+  verticalMode: "exaggeration",
   zExag: 1.5,
+  zMmPer1000m: 10,
   baseMm: 3,
-  zoom: 12,
+  baseReference: "terrainMin",
+  baseElevation: 0,
+  meshBackend: "openscad",
+  zoom: "auto",
+  source: DEFAULT_ELEVATION_SOURCE,
+  missingData: "fail",
+  resampleKernel: "lanczos",
+  outlineMarginMm: 0,
+  footprint: "square",
+  cornerRadiusMm: 5,
+  waterMode: "off",
+  seaLevel: 0,
+  bathymetryExag: 1,
+  flattenLakes: false,
+  smoothingFilter: "none",
+  smoothingRadius: 2,
+  clampMin: null,
+  clampMax: null,
+  heightCurve: "linear",
+  curveGamma: 1,
+  curveKnots: LINEAR_KNOTS,
 };
 
 type ViewTab = "3d" | "scad";
@@ -33,10 +119,25 @@ export default function App() {
   const [isFetching, setIsFetching] = useState(false);
   const [fetchLogs, setFetchLogs] = useState<string[]>([]);
   const [fetchError, setFetchError] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [elevMin, setElevMin] = useState<number | null>(null);
-  const [elevMax, setElevMax] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ heightmap: Uint8Array; url: string } | null>(null);
+  // Step 1's heightmap as fetched, for the before/after toggle
+  const [rawPreview, setRawPreview] = useState<{ heightmap: Uint8Array; url: string } | null>(
+    null
+  );
+  const [waterOverlay, setWaterOverlay] = useState<{ mask: Uint8Array; url: string } | null>(
+    null
+  );
+  const [filledOverlayUrl, setFilledOverlayUrl] = useState<string | null>(null);
+  const [outline, setOutline] = useState<Outline | null>(null);
+  const [dem, setDem] = useState<GeoRaster | null>(null);
+  const [outlineOverlay, setOutlineOverlay] = useState<{ mask: Uint8Array; url: string } | null>(
+    null
+  );
+  // The bundled demo holds relative heights, so its range is not shown
+  const [showElevRange, setShowElevRange] = useState(false);
   const [heightmapResult, setHeightmapResult] = useState<HeightmapResult | null>(null);
+  // Where the current heightmap came from, for the SCAD header
+  const [heightmapSource, setHeightmapSource] = useState("");
   const [step1Done, setStep1Done] = useState(false);
   const [demoStlData, setDemoStlData] = useState<Uint8Array | null>(null);
   const [isLoadingDemo, setIsLoadingDemo] = useState(true);
@@ -44,6 +145,11 @@ export default function App() {
   const [terrainRevision, setTerrainRevision] = useState(0);
   const [compiledRevision, setCompiledRevision] = useState(0);
   const [pendingCompileRevision, setPendingCompileRevision] = useState<number | null>(null);
+  const [tileCacheRevision, setTileCacheRevision] = useState(0);
+  const [tileProgress, setTileProgress] = useState<{ done: number; total: number } | null>(null);
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  const [costLimits, setCostLimitsState] = useState<CostLimits>(getCostLimits);
+  const [pendingRun, setPendingRun] = useState<{ step: 1 | 2; reasons: string[] } | null>(null);
 
   // Step 2 state
   const { compile, stlData, lastResultMeta, scadCode, status: scadStatus, isCompiling, error: scadError, logs: scadLogs } =
@@ -60,13 +166,183 @@ export default function App() {
   const isGenerating = isFetching || isCompiling || (isLoadingDemo && !visibleStlData);
   const status =
     isFetching
-      ? (fetchLogs[fetchLogs.length - 1] ?? "")
+      ? tileProgress && tileProgress.done < tileProgress.total
+        ? `Fetching tiles… ${tileProgress.done}/${tileProgress.total} tiles`
+        : (fetchLogs[fetchLogs.length - 1] ?? "")
       : isLoadingDemo && !visibleStlData
         ? "Loading bundled demo terrain…"
         : scadStatus;
   const error = fetchError || scadError;
   const allLogs = [...fetchLogs, ...scadLogs, ...viewerLogs];
 
+  // Pre-flight cost: tiles for the current params, mesh size for the current
+  // heightmap (or the grid Step 1 would produce)
+  const tilePlan = useMemo(
+    () =>
+      checkMercatorLatitudes(localAreaBbox(params))
+        ? null
+        : planTiles({ ...params, bbox: params.areaMode === "bbox" ? params.bbox : undefined }),
+    [params]
+  );
+  const costEstimate = useMemo(() => {
+    // A loaded DEM replaces the tile download
+    if (dem) {
+      const area = params.areaMode === "bbox" ? bboxToArea(params.bbox) : params;
+      const grid =
+        heightmapResult ?? outputGridSize(area.areaWidthKm, area.areaHeightKm, params.outputPx);
+      return estimateCost(null, grid.width, grid.height);
+    }
+    if (tilePlan) {
+      return estimateCost(
+        tilePlan,
+        heightmapResult?.width ?? tilePlan.width,
+        heightmapResult?.height ?? tilePlan.height
+      );
+    }
+    // No tiles for this area (beyond the Mercator range), but Step 2 still meshes the
+    // grid already loaded; processing keeps its size
+    return heightmapResult ? estimateCost(null, heightmapResult.width, heightmapResult.height) : null;
+  }, [dem, params, tilePlan, heightmapResult]);
+
+  // Model size and Z exaggeration, whether given directly or as map ratios
+  const modelScale = useMemo(() => {
+    const area =
+      heightmapResult ?? (params.areaMode === "bbox" ? bboxToArea(params.bbox) : params);
+    return resolveModelScale(params, area.areaWidthKm, area.areaHeightKm);
+  }, [params, heightmapResult]);
+  const scaleError = validateModelScale(params);
+
+  // Smoothing, water handling and height curve between Step 1 and preview / Step 2
+  const smoothingSettings = useMemo<SmoothingSettings>(
+    () => ({ smoothingFilter: params.smoothingFilter, smoothingRadius: params.smoothingRadius }),
+    [params.smoothingFilter, params.smoothingRadius]
+  );
+  const waterSettings = useMemo<WaterSettings>(
+    () => ({
+      waterMode: params.waterMode,
+      seaLevel: params.seaLevel,
+      bathymetryExag: params.bathymetryExag,
+      flattenLakes: params.flattenLakes,
+    }),
+    [params.waterMode, params.seaLevel, params.bathymetryExag, params.flattenLakes]
+  );
+  const curveSettings = useMemo<HeightCurveSettings>(
+    () => ({
+      clampMin: params.clampMin,
+      clampMax: params.clampMax,
+      heightCurve: params.heightCurve,
+      curveGamma: params.curveGamma,
+      curveKnots: params.curveKnots,
+    }),
+    [params.clampMin, params.clampMax, params.heightCurve, params.curveGamma, params.curveKnots]
+  );
+  // Step 2 waits for settings it can't build a model from
+  const step2Error = scaleError ?? validateHeightWindow(curveSettings);
+  const processing = useMemo<ProcessingSettings>(
+    () => ({
+      smoothing: smoothingSettings,
+      water: waterSettings,
+      curve: curveSettings,
+      zExag: modelScale.zExag,
+    }),
+    [smoothingSettings, waterSettings, curveSettings, modelScale.zExag]
+  );
+  const processed = useMemo(
+    () => (heightmapResult ? processHeightmap(heightmapResult, processing) : null),
+    [heightmapResult, processing]
+  );
+
+  // The previous image stays up while the next one renders
+  useEffect(() => {
+    if (!processed) return;
+    let cancelled = false;
+    const { heightmap, width, height } = processed;
+    void heightmapToDataUrl(heightmap, width, height).then((url) => {
+      if (!cancelled) setPreview({ heightmap, url });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [processed]);
+
+  const isProcessed = Boolean(processed && processed.elevation !== heightmapResult?.elevation);
+  useEffect(() => {
+    if (!heightmapResult || !isProcessed) return;
+    let cancelled = false;
+    const { heightmap, width, height } = heightmapResult;
+    void heightmapToDataUrl(heightmap, width, height).then((url) => {
+      if (!cancelled) setRawPreview({ heightmap, url });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [heightmapResult, isProcessed]);
+
+  useEffect(() => {
+    const mask = processed?.waterMask;
+    if (!processed || !mask) return;
+    let cancelled = false;
+    void maskToOverlayDataUrl(mask, processed.width, processed.height, [37, 99, 235, 120]).then(
+      (url) => {
+        if (!cancelled) setWaterOverlay({ mask, url });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [processed]);
+
+  // Outline rasterized onto the current heightmap grid
+  const outlineGrid = useMemo(() => {
+    if (!outline || !heightmapResult) return null;
+    const { width, height } = heightmapResult;
+    const rings = outlineToGrid(outline, heightmapResult, width, height);
+    return { rings, mask: rasterizeRings(rings, width, height) };
+  }, [outline, heightmapResult]);
+
+  useEffect(() => {
+    if (!outlineGrid || !heightmapResult) return;
+    let cancelled = false;
+    const outside = outlineGrid.mask.map((v) => 1 - v);
+    void maskToOverlayDataUrl(outside, heightmapResult.width, heightmapResult.height, [
+      15, 23, 42, 150,
+    ]).then((url) => {
+      if (!cancelled) setOutlineOverlay({ mask: outlineGrid.mask, url });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [outlineGrid, heightmapResult]);
+
+  const previewOverlays = useMemo(() => {
+    const overlays: PreviewOverlay[] = [];
+    if (filledOverlayUrl) {
+      overlays.push({
+        key: "filled",
+        dataUrl: filledOverlayUrl,
+        label: "Interpolated (no data)",
+        color: "rgb(239 68 68 / 0.55)",
+      });
+    }
+    if (waterOverlay && waterOverlay.mask === processed?.waterMask) {
+      overlays.push({
+        key: "water",
+        dataUrl: waterOverlay.url,
+        label: "Water",
+        color: "rgb(37 99 235 / 0.47)",
+      });
+    }
+    if (outlineOverlay && outlineOverlay.mask === outlineGrid?.mask) {
+      overlays.push({
+        key: "outline",
+        dataUrl: outlineOverlay.url,
+        label: "Outside outline",
+        color: "rgb(15 23 42 / 0.6)",
+      });
+    }
+    return overlays;
+  }, [filledOverlayUrl, waterOverlay, processed, outlineOverlay, outlineGrid]);
+
   useEffect(() => {
     if (!stlData || pendingCompileRevision == null) return;
     setCompiledRevision(pendingCompileRevision);
@@ -82,20 +358,21 @@ export default function App() {
         const demo = await loadDemoTerrainAssets();
         if (cancelled) return;
 
-        const dataUrl = await heightmapToDataUrl(demo.heightmap, demo.width, demo.height);
-        if (cancelled) return;
-
         setDemoStlData(demo.stlData);
         setHeightmapResult({
+          elevation: demo.elevation,
           heightmap: demo.heightmap,
           width: demo.width,
           height: demo.height,
           elevMin: demo.elevMin,
           elevMax: demo.elevMax,
+          areaWidthKm: demo.areaWidthKm,
+          areaHeightKm: demo.areaHeightKm,
+          bbox: demo.bbox,
+          centerLat: demo.centerLat,
+          centerLon: demo.centerLon,
         });
-        setPreviewUrl(dataUrl);
-        setElevMin(null);
-        setElevMax(null);
+        setShowElevRange(false);
         // Demo assets are for preview only; keep Step 2 disabled until a real terrain download.
         setStep1Done(false);
         setTerrainRevision(0);
@@ -120,28 +397,60 @@ export default function App() {
     };
   }, []);
 
-  // Step 1: Download tiles + generate heightmap
+  // Show a finished heightmap and hand it to Step 2
+  const showHeightmap = useCallback(async (result: HeightmapResult, source: string) => {
+    setShowElevRange(true);
+    setHeightmapResult(result);
+    setHeightmapSource(source);
+
+    if (result.filledMask) {
+      const filledUrl = await maskToOverlayDataUrl(
+        result.filledMask,
+        result.width,
+        result.height,
+        [239, 68, 68, 140]
+      );
+      setFilledOverlayUrl(filledUrl);
+    } else {
+      setFilledOverlayUrl(null);
+    }
+    setTerrainRevision((prev) => prev + 1);
+    setStep1Done(true);
+  }, []);
+
+  // Step 1: Download tiles (or sample the loaded DEM) + generate heightmap
   const handleStep1 = useCallback(async () => {
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
     setIsFetching(true);
+    setTileProgress(null);
     setFetchError(null);
-    setPreviewUrl(null);
-    setElevMin(null);
-    setElevMax(null);
+    setFilledOverlayUrl(null);
+    setShowElevRange(false);
     setHeightmapResult(null);
     setStep1Done(false);
 
     try {
       const t0 = performance.now();
-      const result = await generateHeightmap(
-        {
-          centerLat: params.centerLat,
-          centerLon: params.centerLon,
-          areaKm: params.areaKm,
-          outputPx: params.outputPx,
-          zoom: params.zoom,
-        },
-        (msg) => setFetchLogs((prev) => [...prev, msg])
-      );
+      const terrainParams = {
+        centerLat: params.centerLat,
+        centerLon: params.centerLon,
+        areaWidthKm: params.areaWidthKm,
+        areaHeightKm: params.areaHeightKm,
+        outputPx: params.outputPx,
+        zoom: params.zoom,
+        source: params.source,
+        missingData: params.missingData,
+        resampleKernel: params.resampleKernel,
+        bbox: params.areaMode === "bbox" ? params.bbox : undefined,
+      };
+      const log = (msg: string) => setFetchLogs((prev) => [...prev, msg]);
+      const result = dem
+        ? rasterToHeightmap(dem, terrainParams, log)
+        : await generateHeightmap(terrainParams, log, {
+            signal: controller.signal,
+            onTileProgress: (done, total) => setTileProgress({ done, total }),
+          });
 
       const fetchMs = performance.now() - t0;
       setFetchLogs((prev) => [
@@ -149,47 +458,175 @@ export default function App() {
         `Heightmap: ${result.width}x${result.height}, ${result.elevMin.toFixed(0)}–${result.elevMax.toFixed(0)} m (${(fetchMs / 1000).toFixed(1)} s)`,
       ]);
 
-      setElevMin(result.elevMin);
-      setElevMax(result.elevMax);
-      setHeightmapResult(result);
-
-      const dataUrl = await heightmapToDataUrl(result.heightmap, result.width, result.height);
-      setPreviewUrl(dataUrl);
-      setTerrainRevision((prev) => prev + 1);
+      await showHeightmap(result, dem ? dem.name : describeElevationSource(params.source));
       setIsFetching(false);
-      setStep1Done(true);
     } catch (err) {
-      setFetchError(err instanceof Error ? err.message : String(err));
+      if (isAbortError(err)) {
+        setFetchLogs((prev) => [...prev, "Terrain download cancelled"]);
+      } else {
+        setFetchError(err instanceof Error ? err.message : String(err));
+      }
       setIsFetching(false);
+    } finally {
+      if (fetchAbortRef.current === controller) fetchAbortRef.current = null;
+      setTileProgress(null);
+      setTileCacheRevision((prev) => prev + 1);
     }
-  }, [params]);
+  }, [params, dem, showHeightmap]);
+
+  const handleCancelStep1 = useCallback(() => {
+    fetchAbortRef.current?.abort();
+  }, []);
 
   // Step 2: Compile STL in worker
   const handleStep2 = useCallback(() => {
-    if (!heightmapResult || !step1Done || isCompiling || isFetching) return;
+    if (!processed || !step1Done || isCompiling || isFetching) return;
+    if (step2Error) {
+      setFetchError(step2Error);
+      return;
+    }
+
+    // With an outline, the elevation range is measured inside it only
+    let terrain = {
+      elevation: processed.elevation,
+      elevMin: processed.elevMin,
+      elevMax: processed.elevMax,
+    };
+    if (outlineGrid) {
+      try {
+        terrain = applyOutlineMask(processed.elevation, outlineGrid.mask);
+      } catch (err) {
+        setFetchError(err instanceof Error ? err.message : String(err));
+        return;
+      }
+    }
+
+    const datumLabel = describeBaseReference(params);
+    setFetchError(null);
     setPendingCompileRevision(terrainRevision);
     compile({
-      heightmap: heightmapResult.heightmap,
-      width: heightmapResult.width,
-      height: heightmapResult.height,
+      backend: params.meshBackend,
+      elevation: terrain.elevation,
+      width: processed.width,
+      height: processed.height,
       params: {
-        centerLat: params.centerLat,
-        centerLon: params.centerLon,
-        areaKm: params.areaKm,
-        outputPx: params.outputPx,
-        modelMm: params.modelMm,
-        zExag: params.zExag,
+        centerLat: processed.centerLat,
+        centerLon: processed.centerLon,
+        areaWidthKm: processed.areaWidthKm,
+        areaHeightKm: processed.areaHeightKm,
+        gridWidth: processed.width,
+        gridHeight: processed.height,
+        modelMm: modelScale.modelMm,
+        zExag: modelScale.zExag,
         baseMm: params.baseMm,
-        elevMin: heightmapResult.elevMin,
-        elevMax: heightmapResult.elevMax,
+        elevMin: terrain.elevMin,
+        elevMax: terrain.elevMax,
+        datum: datumLabel
+          ? { elevation: baseDatum(params, terrain.elevMin), label: datumLabel }
+          : undefined,
+        source: heightmapSource,
+        outline:
+          outline && outlineGrid
+            ? { name: outline.name, rings: outlineGrid.rings, marginMm: params.outlineMarginMm }
+            : undefined,
+        footprint: params.footprint,
+        cornerRadiusMm: params.cornerRadiusMm,
+        water: describeWater(waterSettings),
+        filter: describeSmoothing(smoothingSettings),
+        curve: processed.curveApplied ? describeHeightCurve(curveSettings) : undefined,
       },
     });
-  }, [heightmapResult, step1Done, isCompiling, isFetching, terrainRevision, params, compile]);
+  }, [
+    processed,
+    step1Done,
+    isCompiling,
+    isFetching,
+    terrainRevision,
+    params,
+    outline,
+    outlineGrid,
+    heightmapSource,
+    waterSettings,
+    smoothingSettings,
+    curveSettings,
+    modelScale,
+    step2Error,
+    compile,
+  ]);
+
+  // Run a step unless its cost estimate is over a block limit; over a confirm limit, ask first
+  const requestStep = useCallback(
+    (step: 1 | 2) => {
+      const run = step === 1 ? () => void handleStep1() : handleStep2;
+      if (!costEstimate) {
+        run();
+        return;
+      }
+      const backend = effectiveMeshBackend(params.meshBackend, params.footprint, outline !== null);
+      const check = checkCost(costEstimate, costLimits, step, backend);
+      if (check.blocked.length > 0) {
+        setFetchError(`Step ${step} blocked: ${check.blocked.join("; ")}`);
+      } else if (check.confirm.length > 0) {
+        setPendingRun({ step, reasons: check.confirm });
+      } else {
+        run();
+      }
+    },
+    [costEstimate, costLimits, params, outline, handleStep1, handleStep2]
+  );
+  const requestStep1 = useCallback(() => requestStep(1), [requestStep]);
+  const requestStep2 = useCallback(() => requestStep(2), [requestStep]);
+
+  const handleConfirmRun = useCallback(() => {
+    if (pendingRun?.step === 1) void handleStep1();
+    else if (pendingRun?.step === 2) handleStep2();
+    setPendingRun(null);
+  }, [pendingRun, handleStep1, handleStep2]);
+
+  const handleCostLimitsChange = useCallback((limits: CostLimits) => {
+    setCostLimits(limits);
+    setCostLimitsState(limits);
+  }, []);
 
   const handleViewerLog = useCallback((message: string) => {
     setViewerLogs((prev) => [...prev, message]);
   }, []);
 
+  const handleFetchLog = useCallback((message: string) => {
+    setFetchLogs((prev) => [...prev, message]);
+  }, []);
+
+  const handleImportHeightmap = useCallback(
+    (result: HeightmapResult, source: string) => {
+      setFetchError(null);
+      void showHeightmap(result, source);
+    },
+    [showHeightmap]
+  );
+
+  // Grow (or with a negative `fraction`, shrink) a bbox on each side
+  const fitAreaTo = useCallback((bbox: BBox, fraction: number) => {
+    const padLon = lonSpan(bbox) * fraction;
+    const padLat = (bbox.north - bbox.south) * fraction;
+    const padded = {
+      west: normalizeLon(bbox.west - padLon),
+      east: normalizeLon(bbox.east + padLon),
+      south: Math.max(-90, bbox.south - padLat),
+      north: Math.min(90, bbox.north + padLat),
+    };
+    setParams((prev) => applyBbox({ ...prev, areaMode: "bbox" }, padded));
+  }, []);
+
+  // Small padding so the outline does not touch the heightmap edge
+  const handleFitAreaToOutline = useCallback(() => {
+    if (outline) fitAreaTo(outlineBbox(outline), 0.02);
+  }, [outline, fitAreaTo]);
+
+  // Slight inset so the local grid, which bulges past the lat/lon bounds, stays on the DEM
+  const handleFitAreaToDem = useCallback(() => {
+    if (dem) fitAreaTo(rasterBbox(dem), -0.03);
+  }, [dem, fitAreaTo]);
+
   const handleDownloadStl = useCallback(() => {
     if (!visibleStlData) return;
     downloadBlob(visibleStlData, stlData ? "terrain.stl" : "terrain_everest.stl", "model/stl");
@@ -202,17 +639,27 @@ export default function App() {
     }
   }, [scadCode]);
 
+  // The export is Step 1's grid, before smoothing, water and curve, so
+  // reopening it and applying the same settings gives the same model
   const handleDownloadDat = useCallback(() => {
     if (!heightmapResult) return;
     const datContent = heightmapToDat(
-      heightmapResult.heightmap,
+      heightmapResult.elevation,
       heightmapResult.width,
-      heightmapResult.height
+      heightmapResult.height,
+      heightmapResult.elevMin
     );
     const data = new TextEncoder().encode(datContent);
     downloadBlob(data, "heightmap.dat", "text/plain");
   }, [heightmapResult]);
 
+  // Sidecar with the datum and extents, so the .dat can be reopened later
+  const handleDownloadMetadata = useCallback(() => {
+    if (!heightmapResult) return;
+    const metadata = JSON.stringify(heightmapMetadata(heightmapResult, heightmapSource), null, 2);
+    downloadBlob(new TextEncoder().encode(metadata), "heightmap.json", "application/json");
+  }, [heightmapResult, heightmapSource]);
+
   return (
     <div className="flex h-screen">
       {/* Sidebar */}
@@ -233,19 +680,80 @@ export default function App() {
         <div className="mt-4 space-y-4">
           <TerrainControls
             params={params}
+            tilePlan={tilePlan}
+            cost={costEstimate}
+            costLimits={costLimits}
+            demName={dem?.name ?? null}
+            hasOutline={outline !== null}
+            modelScale={modelScale}
             onChange={setParams}
-            onStep1={handleStep1}
-            onStep2={handleStep2}
+            onStep1={requestStep1}
+            onCancelStep1={handleCancelStep1}
+            onStep2={requestStep2}
             isFetching={isFetching}
             isCompiling={isCompiling}
             step1Done={step1Done}
           />
           <HeightmapPreview
-            dataUrl={previewUrl}
-            elevMin={elevMin}
-            elevMax={elevMax}
+            dataUrl={processed ? (preview?.url ?? null) : null}
+            beforeDataUrl={
+              isProcessed && rawPreview?.heightmap === heightmapResult?.heightmap
+                ? rawPreview?.url
+                : null
+            }
+            elevMin={showElevRange && processed ? processed.elevMin : null}
+            elevMax={showElevRange && processed ? processed.elevMax : null}
+            curve={
+              processed?.histogram
+                ? {
+                    settings: curveSettings,
+                    histogram: processed.histogram,
+                    onKnotsChange: (curveKnots) => setParams((prev) => ({ ...prev, curveKnots })),
+                  }
+                : null
+            }
+            overlays={previewOverlays}
             onDownloadDat={handleDownloadDat}
+            onDownloadMetadata={handleDownloadMetadata}
+          />
+          <SmoothingPanel
+            settings={smoothingSettings}
+            onChange={(patch) => setParams((prev) => ({ ...prev, ...patch }))}
+          />
+          <WaterPanel
+            settings={waterSettings}
+            onChange={(patch) => setParams((prev) => ({ ...prev, ...patch }))}
+            stats={processed?.water ?? null}
+            cellCount={processed ? processed.width * processed.height : 0}
           />
+          <HeightCurvePanel
+            settings={curveSettings}
+            onChange={(patch) => setParams((prev) => ({ ...prev, ...patch }))}
+            dataMin={processed ? (processed.histogram?.lo ?? processed.elevMin) : null}
+            dataMax={processed ? (processed.histogram?.hi ?? processed.elevMax) : null}
+          />
+          <HeightmapImportPanel
+            params={params}
+            disabled={isFetching || isCompiling}
+            onImport={handleImportHeightmap}
+            onLog={handleFetchLog}
+          />
+          <DemPanel
+            dem={dem}
+            onDemChange={setDem}
+            onFitArea={handleFitAreaToDem}
+            onLog={handleFetchLog}
+          />
+          <OutlinePanel
+            outline={outline}
+            marginMm={params.outlineMarginMm}
+            onOutlineChange={setOutline}
+            onMarginChange={(v) => setParams((prev) => ({ ...prev, outlineMarginMm: v }))}
+            onFitArea={handleFitAreaToOutline}
+            onLog={handleFetchLog}
+          />
+          <TileCachePanel refreshKey={tileCacheRevision} onLog={handleFetchLog} />
+          <CostLimitsPanel limits={costLimits} onChange={handleCostLimitsChange} />
         </div>
         <footer className="mt-auto space-y-2 border-t border-border pt-3 text-xs text-muted-foreground">
           <a
@@ -331,8 +839,10 @@ export default function App() {
               isLoading={isGenerating}
               loadingStatus={status}
               isOutdated={isModelOutdated}
-              onRenderStl={handleStep2}
-              canRenderStl={hasRenderableTerrain && !isFetching && !isCompiling}
+              onRenderStl={requestStep2}
+              canRenderStl={
+                hasRenderableTerrain && !isFetching && !isCompiling && step2Error === null
+              }
               onLog={handleViewerLog}
             />
           ) : (
@@ -343,6 +853,25 @@ export default function App() {
         {/* Log pane */}
         <LogPane logs={allLogs} status={status} error={error} />
       </main>
+
+      <AlertDialog open={pendingRun !== null} onOpenChange={(open) => !open && setPendingRun(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRun?.step === 1 ? "Large terrain download" : "Large model"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRun?.reasons.join(". ")}. Continue anyway?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRun}>
+              {pendingRun?.step === 1 ? "Download" : "Generate"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
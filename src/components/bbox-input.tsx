@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { normalizeBbox, parseBboxString, validateBbox, type BBox } from "@/lib/geo";
+import { ClipboardPaste } from "lucide-react";
+
+interface Props {
+  bbox: BBox;
+  onChange: (bbox: BBox) => void;
+}
+
+const FIELDS = [
+  { key: "north", label: "North", min: -90, max: 90 },
+  { key: "south", label: "South", min: -90, max: 90 },
+  { key: "west", label: "West", min: -180, max: 180 },
+  { key: "east", label: "East", min: -180, max: 180 },
+] as const;
+
+/** Field text as typed, so a cleared or half-typed field survives re-renders */
+type BboxDraft = Record<keyof BBox, string>;
+
+function toDraft(bbox: BBox): BboxDraft {
+  return {
+    north: String(bbox.north),
+    south: String(bbox.south),
+    west: String(bbox.west),
+    east: String(bbox.east),
+  };
+}
+
+/** Empty or unparsable fields become NaN, which validateBbox() rejects */
+function parseDraft(draft: BboxDraft): BBox {
+  const num = (text: string) => (text.trim() ? Number(text) : NaN);
+  return {
+    north: num(draft.north),
+    south: num(draft.south),
+    west: num(draft.west),
+    east: num(draft.east),
+  };
+}
+
+export function BboxInput({ bbox, onChange }: Props) {
+  const [draft, setDraft] = useState<BboxDraft>(() => toDraft(bbox));
+  const [pasteText, setPasteText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [syncedBbox, setSyncedBbox] = useState(bbox);
+
+  // Adopt bbox changes made elsewhere (presets, mode switch) without
+  // clobbering an invalid draft the user is still typing.
+  if (bbox !== syncedBbox) {
+    setSyncedBbox(bbox);
+    const typed = parseDraft(draft);
+    if (FIELDS.some(({ key }) => typed[key] !== bbox[key])) setDraft(toDraft(bbox));
+  }
+
+  const setField = (key: keyof BBox, text: string) => {
+    const typed = parseDraft({ ...draft, [key]: text });
+    // Longitudes past ±180 wrap around, so 170 → 190 becomes a box across the antimeridian
+    const next = normalizeBbox(typed);
+    setDraft({ ...draft, [key]: Object.is(next[key], typed[key]) ? text : String(next[key]) });
+    const validation = validateBbox(next);
+    setError(validation);
+    if (!validation) onChange(next);
+  };
+
+  const applyPaste = () => {
+    try {
+      const parsed = parseBboxString(pasteText);
+      setError(null);
+      setPasteText("");
+      onChange(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`bbox-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`bbox-${field.key}`}
+              type="number"
+              step="0.0001"
+              min={field.min}
+              max={field.max}
+              value={draft[field.key]}
+              onChange={(e) => setField(field.key, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="bbox-paste">Paste bbox</Label>
+        <div className="flex gap-2">
+          <Input
+            id="bbox-paste"
+            value={pasteText}
+            placeholder="west,south,east,north"
+            onChange={(e) => setPasteText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") applyPaste();
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={applyPaste}
+            disabled={!pasteText.trim()}
+            title="Apply pasted bbox"
+            aria-label="Apply pasted bbox"
+          >
+            <ClipboardPaste />
+          </Button>
+        </div>
+      </div>
+
+      {!error && bbox.west > bbox.east && (
+        <p className="text-[11px] text-muted-foreground">Crosses the antimeridian (±180°)</p>
+      )}
+
+      {error && <p className="text-[11px] text-destructive">{error}</p>}
+    </div>
+  );
+}
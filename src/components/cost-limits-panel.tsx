@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  COST_METRIC_LABELS,
+  DEFAULT_COST_LIMITS,
+  type CostLimit,
+  type CostLimits,
+  type CostMetric,
+} from "@/lib/cost-estimate";
+import { Gauge, RotateCcw } from "lucide-react";
+
+const MB = 1024 * 1024;
+const BYTE_METRICS = new Set<CostMetric>(["downloadBytes", "stlBytes", "wasmBytes"]);
+
+interface Props {
+  limits: CostLimits;
+  onChange: (limits: CostLimits) => void;
+}
+
+export function CostLimitsPanel({ limits, onChange }: Props) {
+  // Text of the field being edited, so it can be cleared or half-typed;
+  // valid values are applied as typed and the field settles on blur
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  // Byte limits are edited in MB
+  const unit = (metric: CostMetric) => (BYTE_METRICS.has(metric) ? MB : 1);
+  const setLimit = (metric: CostMetric, key: keyof CostLimit, text: string) => {
+    setDrafts((prev) => ({ ...prev, [`${metric}.${key}`]: text }));
+    const value = text.trim() ? Number(text) : NaN;
+    if (!Number.isFinite(value) || value < 0) return;
+    onChange({
+      ...limits,
+      [metric]: { ...limits[metric], [key]: Math.round(value * unit(metric)) },
+    });
+  };
+  const endEdit = (metric: CostMetric, key: keyof CostLimit) =>
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[`${metric}.${key}`];
+      return next;
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Gauge className="h-3.5 w-3.5" />
+          Limits
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-xs">
+        <div className="grid grid-cols-[1fr_5rem_5rem] items-center gap-x-2 gap-y-1.5">
+          <span />
+          <span className="text-muted-foreground">Ask above</span>
+          <span className="text-muted-foreground">Block above</span>
+          {(Object.keys(COST_METRIC_LABELS) as CostMetric[]).map((metric) => (
+            <div key={metric} className="contents">
+              <span>
+                {COST_METRIC_LABELS[metric]}
+                {BYTE_METRICS.has(metric) && <span className="text-muted-foreground"> (MB)</span>}
+              </span>
+              {(["confirm", "block"] as const).map((key) => (
+                <Input
+                  key={key}
+                  type="number"
+                  min={0}
+                  className="h-7 px-2 text-xs"
+                  aria-label={`${COST_METRIC_LABELS[metric]} ${key} limit`}
+                  value={drafts[`${metric}.${key}`] ?? limits[metric][key] / unit(metric)}
+                  onChange={(e) => setLimit(metric, key, e.target.value)}
+                  onBlur={() => endEdit(metric, key)}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+        <p className="text-[11px] text-muted-foreground">0 turns a limit off.</p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => {
+            setDrafts({});
+            onChange(DEFAULT_COST_LIMITS);
+          }}
+        >
+          <RotateCcw />
+          Reset to defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
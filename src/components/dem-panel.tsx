@@ -0,0 +1,115 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { crsFromEpsg, describeCrs } from "@/lib/crs";
+import { parseDemFile } from "@/lib/heightmap-import";
+import { describeRaster, type GeoRaster } from "@/lib/raster";
+import { Maximize2, Mountain, Upload, X } from "lucide-react";
+
+interface Props {
+  dem: GeoRaster | null;
+  onDemChange: (dem: GeoRaster | null) => void;
+  /** Switch the area to the DEM's bounding box */
+  onFitArea: () => void;
+  onLog?: (message: string) => void;
+}
+
+export function DemPanel({ dem, onDemChange, onFitArea, onLog }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // .asc and .xyz files carry no CRS
+  const [epsg, setEpsg] = useState(4326);
+  const textCrs = crsFromEpsg(epsg);
+
+  const handleFile = async (file: File) => {
+    setIsLoading(true);
+    try {
+      const parsed = await parseDemFile(file, textCrs);
+      setError(null);
+      onDemChange(parsed);
+      onLog?.(`DEM loaded: ${parsed.name} (${describeRaster(parsed)})`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Mountain className="h-3.5 w-3.5" />
+          Elevation file
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".tif,.tiff,image/tiff,.asc,.xyz,.txt,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void handleFile(file);
+          }}
+        />
+        {dem ? (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate" title={dem.name}>
+                {dem.name}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-xs"
+                onClick={() => onDemChange(null)}
+                title="Remove DEM"
+                aria-label="Remove DEM"
+              >
+                <X />
+              </Button>
+            </div>
+            <p className="text-[11px] text-muted-foreground">{describeRaster(dem)}</p>
+            <Button type="button" variant="outline" className="w-full" onClick={onFitArea}>
+              <Maximize2 />
+              Fit area to DEM
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              disabled={isLoading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload />
+              {isLoading ? "Reading…" : "Load DEM (GeoTIFF, ASC, XYZ)"}
+            </Button>
+            <div className="space-y-1">
+              <Label htmlFor="dem-epsg">CRS of .asc / .xyz files (EPSG)</Label>
+              <Input
+                id="dem-epsg"
+                type="number"
+                className="h-7 text-xs"
+                value={epsg}
+                onChange={(e) => setEpsg(parseInt(e.target.value) || 0)}
+              />
+              <p className="text-[11px] text-muted-foreground">
+                {textCrs ? describeCrs(textCrs) : "Unsupported; use 4326, 3857 or a UTM zone"}
+              </p>
+            </div>
+          </>
+        )}
+        {error && <p className="text-[11px] text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useRef, useState } from "react";
+import {
+  CURVE_KNOT_X,
+  curveValue,
+  type ElevationHistogram,
+  type HeightCurveSettings,
+} from "@/lib/height-curve";
+
+export interface HeightCurveChartProps {
+  settings: HeightCurveSettings;
+  histogram: ElevationHistogram;
+  /** Dragging a knot of the piecewise curve */
+  onKnotsChange: (knots: number[]) => void;
+}
+
+const CURVE_SAMPLES = 64;
+
+/** Histogram of the input heights with the transfer curve on top (input → printed height) */
+export function HeightCurveChart({ settings, histogram, onKnotsChange }: HeightCurveChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const { bins, lo, hi } = histogram;
+  const peak = Math.max(1, ...bins);
+  const editable = settings.heightCurve === "piecewise";
+
+  const curve: string[] = [];
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const t = i / CURVE_SAMPLES;
+    curve.push(`${(t * 100).toFixed(2)},${((1 - curveValue(settings, t)) * 100).toFixed(2)}`);
+  }
+
+  const dragTo = (clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (dragging == null || !rect || rect.height === 0) return;
+    const y = Math.min(1, Math.max(0, 1 - (clientY - rect.top) / rect.height));
+    const knots = [...settings.curveKnots];
+    knots[dragging] = +y.toFixed(3);
+    onKnotsChange(knots);
+  };
+
+  return (
+    <div className="space-y-1">
+      <svg
+        ref={svgRef}
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className="h-24 w-full touch-none rounded border border-border bg-muted/30"
+        onPointerMove={(e) => dragTo(e.clientY)}
+        onPointerUp={() => setDragging(null)}
+        onLostPointerCapture={() => setDragging(null)}
+      >
+        {Array.from(bins, (count, i) => {
+          const h = (count / peak) * 100;
+          return (
+            <rect
+              key={i}
+              x={(i / bins.length) * 100}
+              y={100 - h}
+              width={100 / bins.length}
+              height={h}
+              className="fill-muted-foreground/25"
+            />
+          );
+        })}
+        <polyline
+          points={curve.join(" ")}
+          fill="none"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-primary"
+          strokeWidth={1.5}
+        />
+        {editable &&
+          CURVE_KNOT_X.map((x, i) => (
+            <ellipse
+              key={x}
+              cx={x * 100}
+              cy={(1 - settings.curveKnots[i]) * 100}
+              rx={2}
+              ry={3.5}
+              className="cursor-ns-resize fill-primary"
+              onPointerDown={(e) => {
+                e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                setDragging(i);
+              }}
+            />
+          ))}
+      </svg>
+      <div className="flex justify-between text-[11px] text-muted-foreground">
+        <span>{lo.toFixed(0)} m</span>
+        {editable && <span>Drag the points to shape the curve</span>}
+        <span>{hi.toFixed(0)} m</span>
+      </div>
+    </div>
+  );
+}
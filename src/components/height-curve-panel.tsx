@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  HEIGHT_CURVE_LABELS,
+  LINEAR_KNOTS,
+  validateHeightWindow,
+  type HeightCurve,
+  type HeightCurveSettings,
+} from "@/lib/height-curve";
+import { Spline } from "lucide-react";
+
+interface Props {
+  settings: HeightCurveSettings;
+  onChange: (patch: Partial<HeightCurveSettings>) => void;
+  /** Range of the heightmap entering the curve, shown as the window placeholders */
+  dataMin: number | null;
+  dataMax: number | null;
+}
+
+function WindowField({
+  id,
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number | null;
+  placeholder: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  // Text while editing, so "-" or a half-typed number isn't replaced;
+  // an empty field means auto, valid numbers apply as typed
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={draft ?? value ?? ""}
+        placeholder={placeholder != null ? `auto (${placeholder.toFixed(0)})` : "auto"}
+        onChange={(e) => {
+          const text = e.target.value;
+          setDraft(text);
+          // Browsers report a lone "-" as an empty value with badInput set
+          if (e.target.validity.badInput) return;
+          if (!text.trim()) onChange(null);
+          else if (Number.isFinite(Number(text))) onChange(Number(text));
+        }}
+        onBlur={() => setDraft(null)}
+      />
+    </div>
+  );
+}
+
+export function HeightCurvePanel({ settings, onChange, dataMin, dataMax }: Props) {
+  const windowError = validateHeightWindow(settings);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Spline className="h-3.5 w-3.5" />
+          Height curve
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <WindowField
+            id="clamp-min"
+            label="Window bottom (m)"
+            value={settings.clampMin}
+            placeholder={dataMin}
+            onChange={(clampMin) => onChange({ clampMin })}
+          />
+          <WindowField
+            id="clamp-max"
+            label="Window top (m)"
+            value={settings.clampMax}
+            placeholder={dataMax}
+            onChange={(clampMax) => onChange({ clampMax })}
+          />
+        </div>
+        {windowError && <p className="text-[11px] text-destructive">{windowError}</p>}
+
+        <div className="space-y-1">
+          <Label>Curve</Label>
+          <Select
+            value={settings.heightCurve}
+            onValueChange={(v) => onChange({ heightCurve: v as HeightCurve })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HEIGHT_CURVE_LABELS) as HeightCurve[]).map((curve) => (
+                <SelectItem key={curve} value={curve}>
+                  {HEIGHT_CURVE_LABELS[curve]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.heightCurve === "gamma" && (
+          <div className="space-y-1">
+            <Label>Gamma: {settings.curveGamma.toFixed(2)}</Label>
+            <Slider
+              min={0.2}
+              max={5}
+              step={0.05}
+              value={[settings.curveGamma]}
+              onValueChange={([v]) => onChange({ curveGamma: v })}
+            />
+          </div>
+        )}
+
+        {settings.heightCurve === "piecewise" && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => onChange({ curveKnots: LINEAR_KNOTS })}
+          >
+            Reset curve to linear
+          </Button>
+        )}
+
+        <p className="text-[11px] text-muted-foreground">
+          Heights outside the window are clipped to it; the curve is shown over the elevation
+          histogram in the heightmap preview.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { TerrainParams } from "@/components/terrain-controls";
+import { decodeGrayscalePng, type GrayImage } from "@/lib/png";
+import {
+  checkDatMetadata,
+  datToHeightmap,
+  imageToHeightmap,
+  parseDatHeightmap,
+  parseHeightmapMetadata,
+  validateImageHeightmapParams,
+  type DatGrid,
+  type HeightmapMetadata,
+} from "@/lib/heightmap-import";
+import type { HeightmapResult } from "@/lib/terrain";
+import { ArrowRight, ImageUp, Upload, X } from "lucide-react";
+
+interface Props {
+  /** Center, resolution and kernel for the imported grid */
+  params: TerrainParams;
+  disabled: boolean;
+  /** Hand the heightmap to Step 2, as if Step 1 had produced it */
+  onImport: (result: HeightmapResult, sourceName: string) => void;
+  onLog?: (message: string) => void;
+}
+
+type LoadedFile =
+  | { kind: "image"; name: string; width: number; height: number; image: GrayImage }
+  | {
+      kind: "dat";
+      name: string;
+      width: number;
+      height: number;
+      grid: DatGrid;
+      metadata: HeightmapMetadata | null;
+    };
+
+function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+      />
+    </div>
+  );
+}
+
+export function HeightmapImportPanel({ params, disabled, onImport, onLog }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Black/white for images; elevMin is the datum for .dat grids
+  const [elevMin, setElevMin] = useState(0);
+  const [elevMax, setElevMax] = useState(1000);
+  const [widthKm, setWidthKm] = useState(params.areaWidthKm);
+  const [heightKm, setHeightKm] = useState(params.areaHeightKm);
+
+  const metadata = loaded?.kind === "dat" ? loaded.metadata : null;
+  const center = metadata ?? params;
+  const aspect = loaded ? loaded.height / loaded.width : 1;
+  const area = {
+    areaWidthKm: widthKm,
+    areaHeightKm: heightKm,
+    centerLat: center.centerLat,
+    centerLon: center.centerLon,
+  };
+  const imageParams = {
+    ...area,
+    elevMin,
+    elevMax,
+    outputPx: params.outputPx,
+    resampleKernel: params.resampleKernel,
+  };
+  const paramsError =
+    loaded?.kind === "image"
+      ? validateImageHeightmapParams(imageParams)
+      : !(widthKm > 0) || !(heightKm > 0)
+        ? "Ground size must be positive"
+        : null;
+
+  // A .dat may come with its heightmap.json sidecar; pick both at once
+  const handleFiles = async (files: File[]) => {
+    try {
+      const sidecar = files.find((f) => f.name.toLowerCase().endsWith(".json"));
+      const main = files.find((f) => f !== sidecar);
+      if (!main) throw new Error("Choose the .dat together with its .json sidecar");
+
+      if (main.name.toLowerCase().endsWith(".dat")) {
+        const grid = parseDatHeightmap(await main.text(), main.name);
+        const meta = sidecar ? parseHeightmapMetadata(await sidecar.text(), sidecar.name) : null;
+        if (meta && sidecar) checkDatMetadata(grid, meta, sidecar.name);
+        setLoaded({
+          kind: "dat",
+          name: main.name,
+          width: grid.width,
+          height: grid.height,
+          grid,
+          metadata: meta,
+        });
+        setElevMin(meta ? meta.elevMin : 0);
+        setWidthKm(meta ? meta.areaWidthKm : widthKm);
+        setHeightKm(
+          meta ? meta.areaHeightKm : +((widthKm * grid.height) / grid.width).toFixed(3)
+        );
+      } else {
+        const image = await decodeGrayscalePng(await main.arrayBuffer(), main.name);
+        setLoaded({
+          kind: "image",
+          name: main.name,
+          width: image.width,
+          height: image.height,
+          image,
+        });
+        // Square pixels by default
+        setHeightKm(+((widthKm * image.height) / image.width).toFixed(3));
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = () => {
+    if (!loaded) return;
+    try {
+      if (loaded.kind === "image") {
+        const result = imageToHeightmap(loaded.image, imageParams);
+        onLog?.(
+          `Heightmap image: ${loaded.name} (${loaded.width}×${loaded.height}, ${loaded.image.bitDepth}-bit) → ${result.width}×${result.height}, ${elevMin}–${elevMax} m over ${widthKm}×${heightKm} km`
+        );
+        onImport(result, loaded.name);
+      } else {
+        const result = datToHeightmap(loaded.grid, { ...area, datum: elevMin });
+        onLog?.(
+          `Heightmap reopened: ${loaded.name} (${loaded.width}×${loaded.height}), ${result.elevMin.toFixed(0)}–${result.elevMax.toFixed(0)} m over ${widthKm}×${heightKm} km`
+        );
+        onImport(result, loaded.metadata?.source || loaded.name);
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <ImageUp className="h-3.5 w-3.5" />
+          Import heightmap
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".png,image/png,.dat,.json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length > 0) void handleFiles(files);
+          }}
+        />
+        {loaded ? (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate" title={loaded.name}>
+                {loaded.name} · {loaded.width}×{loaded.height}
+                {loaded.kind === "image" ? `, ${loaded.image.bitDepth}-bit` : ""}
+                {loaded.kind === "dat" && loaded.metadata ? " + metadata" : ""}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-xs"
+                onClick={() => setLoaded(null)}
+                title="Remove heightmap"
+                aria-label="Remove heightmap"
+              >
+                <X />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {loaded.kind === "image" ? (
+                <>
+                  <NumberField
+                    id="import-min"
+                    label="Black (m)"
+                    value={elevMin}
+                    onChange={setElevMin}
+                  />
+                  <NumberField
+                    id="import-max"
+                    label="White (m)"
+                    value={elevMax}
+                    onChange={setElevMax}
+                  />
+                </>
+              ) : (
+                <div className="col-span-2">
+                  <NumberField
+                    id="import-datum"
+                    label="Base elevation (m)"
+                    value={elevMin}
+                    onChange={setElevMin}
+                  />
+                </div>
+              )}
+              <NumberField
+                id="import-width"
+                label="Width (km)"
+                value={widthKm}
+                onChange={(v) => {
+                  setWidthKm(v);
+                  if (v > 0) setHeightKm(+(v * aspect).toFixed(3));
+                }}
+              />
+              <NumberField
+                id="import-height"
+                label="Height (km)"
+                value={heightKm}
+                onChange={setHeightKm}
+              />
+            </div>
+            <p className="text-[11px] text-muted-foreground">
+              Placed at {center.centerLat.toFixed(4)}, {center.centerLon.toFixed(4)}
+              {loaded.kind === "image"
+                ? `; images larger than ${params.outputPx} px are downsampled.`
+                : loaded.metadata
+                  ? " from heightmap metadata."
+                  : "; .dat values are meters above the base elevation."}
+            </p>
+            {paramsError && <p className="text-[11px] text-destructive">{paramsError}</p>}
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              disabled={disabled || paramsError !== null}
+              onClick={handleImport}
+            >
+              <ArrowRight />
+              Use as terrain
+            </Button>
+          </>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload />
+            Load PNG or heightmap.dat (+ .json)
+          </Button>
+        )}
+        {error && <p className="text-[11px] text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
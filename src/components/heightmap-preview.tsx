@@ -1,42 +1,127 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useState } from "react";
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Download } from "lucide-react";
+import { HeightCurveChart, type HeightCurveChartProps } from "@/components/height-curve-chart";
+import { Braces, Download } from "lucide-react";
+
+export interface PreviewOverlay {
+  key: string;
+  dataUrl: string;
+  label: string;
+  /** Legend swatch color, matching the overlay tint */
+  color: string;
+}
 
 interface Props {
   dataUrl: string | null;
+  /** Unprocessed heightmap; offers a before/after toggle when set */
+  beforeDataUrl?: string | null;
   elevMin: number | null;
   elevMax: number | null;
+  overlays?: PreviewOverlay[];
+  /** Height curve over the elevation histogram */
+  curve?: HeightCurveChartProps | null;
   onDownloadDat?: () => void;
+  /** heightmap.json sidecar for reopening the .dat */
+  onDownloadMetadata?: () => void;
 }
 
-export function HeightmapPreview({ dataUrl, elevMin, elevMax, onDownloadDat }: Props) {
+export function HeightmapPreview({
+  dataUrl,
+  beforeDataUrl,
+  elevMin,
+  elevMax,
+  overlays = [],
+  curve,
+  onDownloadDat,
+  onDownloadMetadata,
+}: Props) {
+  const [showBefore, setShowBefore] = useState(false);
   if (!dataUrl) return null;
+  const before = showBefore && beforeDataUrl ? beforeDataUrl : null;
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Heightmap</CardTitle>
+        {beforeDataUrl && (
+          <CardAction className="flex gap-1">
+            <Button
+              type="button"
+              variant={before ? "secondary" : "ghost"}
+              size="xs"
+              onClick={() => setShowBefore(true)}
+            >
+              Before
+            </Button>
+            <Button
+              type="button"
+              variant={before ? "ghost" : "secondary"}
+              size="xs"
+              onClick={() => setShowBefore(false)}
+            >
+              After
+            </Button>
+          </CardAction>
+        )}
       </CardHeader>
       <CardContent className="space-y-2">
         <div className="relative">
           <img
-            src={dataUrl}
-            alt="Heightmap preview"
+            src={before ?? dataUrl}
+            alt={before ? "Heightmap before processing" : "Heightmap preview"}
             className="w-full rounded border border-border"
           />
-          <Button
-            type="button"
-            variant="secondary"
-            size="icon-xs"
-            className="absolute right-2 top-2 shadow-sm"
-            onClick={onDownloadDat}
-            disabled={!onDownloadDat}
-            title="Download heightmap.dat"
-            aria-label="Download heightmap.dat"
-          >
-            <Download />
-          </Button>
+          {!before &&
+            overlays.map((overlay) => (
+              <img
+                key={overlay.key}
+                src={overlay.dataUrl}
+                alt={overlay.label}
+                className="pointer-events-none absolute inset-0 h-full w-full rounded border border-transparent"
+              />
+            ))}
+          <div className="absolute right-2 top-2 flex gap-1">
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon-xs"
+              className="shadow-sm"
+              onClick={onDownloadDat}
+              disabled={!onDownloadDat}
+              title="Download heightmap.dat"
+              aria-label="Download heightmap.dat"
+            >
+              <Download />
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon-xs"
+              className="shadow-sm"
+              onClick={onDownloadMetadata}
+              disabled={!onDownloadMetadata}
+              title="Download heightmap.json (location and datum of the .dat)"
+              aria-label="Download heightmap.json"
+            >
+              <Braces />
+            </Button>
+          </div>
         </div>
+        {overlays.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {overlays.map((overlay) => (
+              <span key={overlay.key} className="inline-flex items-center gap-1.5">
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-sm"
+                  style={{ backgroundColor: overlay.color }}
+                />
+                {overlay.label}
+              </span>
+            ))}
+          </div>
+        )}
+        {curve && <HeightCurveChart {...curve} />}
         {elevMin != null && elevMax != null && (
           <div className="text-xs text-muted-foreground">
             {elevMin.toFixed(0)} m – {elevMax.toFixed(0)} m (range{" "}
@@ -0,0 +1,109 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { parseGeoJsonOutline, type Outline } from "@/lib/geojson";
+import { Frame, Maximize2, Upload, X } from "lucide-react";
+
+interface Props {
+  outline: Outline | null;
+  marginMm: number;
+  onOutlineChange: (outline: Outline | null) => void;
+  onMarginChange: (marginMm: number) => void;
+  /** Switch the area to the outline's bounding box */
+  onFitArea: () => void;
+  onLog?: (message: string) => void;
+}
+
+export function OutlinePanel({
+  outline,
+  marginMm,
+  onOutlineChange,
+  onMarginChange,
+  onFitArea,
+  onLog,
+}: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseGeoJsonOutline(await file.text(), file.name);
+      setError(null);
+      onOutlineChange(parsed);
+      onLog?.(`Outline loaded: ${parsed.name} (${parsed.polygons.length} polygons)`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Frame className="h-3.5 w-3.5" />
+          Outline
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void handleFile(file);
+          }}
+        />
+        {outline ? (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate" title={outline.name}>
+                {outline.name} · {outline.polygons.length} polygon
+                {outline.polygons.length === 1 ? "" : "s"}
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon-xs"
+                onClick={() => onOutlineChange(null)}
+                title="Remove outline"
+                aria-label="Remove outline"
+              >
+                <X />
+              </Button>
+            </div>
+            <Button type="button" variant="outline" className="w-full" onClick={onFitArea}>
+              <Maximize2 />
+              Fit area to outline
+            </Button>
+            <div className="space-y-1">
+              <Label>Base margin: {marginMm} mm</Label>
+              <Slider
+                min={0}
+                max={20}
+                step={1}
+                value={[marginMm]}
+                onValueChange={([v]) => onMarginChange(v)}
+              />
+            </div>
+          </>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload />
+            Load GeoJSON polygon
+          </Button>
+        )}
+        {error && <p className="text-[11px] text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_SMOOTHING_RADIUS,
+  SMOOTHING_FILTER_LABELS,
+  type SmoothingFilter,
+  type SmoothingSettings,
+} from "@/lib/smoothing";
+import { Blend } from "lucide-react";
+
+interface Props {
+  settings: SmoothingSettings;
+  onChange: (patch: Partial<SmoothingSettings>) => void;
+}
+
+export function SmoothingPanel({ settings, onChange }: Props) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Blend className="h-3.5 w-3.5" />
+          Smoothing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label>Filter</Label>
+          <Select
+            value={settings.smoothingFilter}
+            onValueChange={(v) => onChange({ smoothingFilter: v as SmoothingFilter })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SMOOTHING_FILTER_LABELS) as SmoothingFilter[]).map((filter) => (
+                <SelectItem key={filter} value={filter}>
+                  {SMOOTHING_FILTER_LABELS[filter]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.smoothingFilter !== "none" && (
+          <div className="space-y-1">
+            <Label>Radius: {settings.smoothingRadius} px</Label>
+            <Slider
+              min={1}
+              max={MAX_SMOOTHING_RADIUS}
+              step={1}
+              value={[settings.smoothingRadius]}
+              onValueChange={([v]) => onChange({ smoothingRadius: v })}
+            />
+            <p className="text-[11px] text-muted-foreground">
+              {settings.smoothingFilter === "despike"
+                ? "Only cells far from their neighbourhood median are replaced."
+                : "Applied to the heightmap before water handling and meshing."}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
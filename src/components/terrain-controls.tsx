@@ -9,17 +9,92 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Globe, Cog, MapPin, Loader2 } from "lucide-react";
+import { Globe, Cog, MapPin, Loader2, X } from "lucide-react";
+import {
+  ELEVATION_SOURCES,
+  ENCODING_LABELS,
+  type ElevationEncoding,
+  type ElevationSource,
+} from "@/lib/elevation-source";
+import {
+  outputGridSize,
+  type MissingDataMode,
+  type TilePlan,
+  type ZoomSetting,
+} from "@/lib/terrain";
+import { formatSize } from "@/lib/format";
+import {
+  checkCost,
+  COST_METRIC_LABELS,
+  formatCostValue,
+  stepMetrics,
+  type CostEstimate,
+  type CostLimits,
+} from "@/lib/cost-estimate";
+import { RESAMPLE_KERNEL_LABELS, type ResampleKernel } from "@/lib/resample";
+import { applyBbox, areaToBbox, formatBbox, normalizeLon, type BBox } from "@/lib/geo";
+import { FOOTPRINT_LABELS, type Footprint } from "@/lib/scad-template";
+import type { WaterMode } from "@/lib/water";
+import type { SmoothingFilter } from "@/lib/smoothing";
+import { validateHeightWindow, type HeightCurve } from "@/lib/height-curve";
+import { BASE_REFERENCE_LABELS, type BaseReference } from "@/lib/base-reference";
+import {
+  effectiveMeshBackend,
+  MESH_BACKEND_LABELS,
+  nativeMeshUnsupported,
+  type MeshBackend,
+} from "@/lib/mesh";
+import {
+  formatScaleRatio,
+  SIZE_MODE_LABELS,
+  validateModelScale,
+  VERTICAL_MODE_LABELS,
+  type ModelScale,
+  type SizeMode,
+  type VerticalMode,
+} from "@/lib/model-scale";
+import { checkHighLatitude, checkMercatorLatitudes, localAreaBbox } from "@/lib/projection";
+import { BboxInput } from "@/components/bbox-input";
+
+export type AreaMode = "center" | "bbox";
 
 export interface TerrainParams {
   centerLat: number;
   centerLon: number;
-  areaKm: number;
+  areaWidthKm: number;
+  areaHeightKm: number;
+  /** "bbox" makes `bbox` authoritative; center and extents are then derived from it */
+  areaMode: AreaMode;
+  bbox: BBox;
   outputPx: number;
+  sizeMode: SizeMode;
   modelMm: number;
+  scaleDenominator: number;
+  verticalMode: VerticalMode;
   zExag: number;
+  zMmPer1000m: number;
   baseMm: number;
-  zoom: number;
+  baseReference: BaseReference;
+  baseElevation: number;
+  meshBackend: MeshBackend;
+  zoom: ZoomSetting;
+  source: ElevationSource;
+  missingData: MissingDataMode;
+  resampleKernel: ResampleKernel;
+  outlineMarginMm: number;
+  footprint: Footprint;
+  cornerRadiusMm: number;
+  waterMode: WaterMode;
+  seaLevel: number;
+  bathymetryExag: number;
+  flattenLakes: boolean;
+  smoothingFilter: SmoothingFilter;
+  smoothingRadius: number;
+  clampMin: number | null;
+  clampMax: number | null;
+  heightCurve: HeightCurve;
+  curveGamma: number;
+  curveKnots: number[];
 }
 
 const PRESETS = [
@@ -31,10 +106,59 @@ const PRESETS = [
   { label: "Grand Canyon", lat: 36.1069, lon: -112.1129 },
 ] as const;
 
+const AREA_MODES = [
+  { mode: "center", label: "Center + size" },
+  { mode: "bbox", label: "Bounding box" },
+] as const;
+
+function CostSummary({
+  cost,
+  limits,
+  step,
+  backend,
+}: {
+  cost: CostEstimate;
+  limits: CostLimits;
+  step: 1 | 2;
+  backend?: MeshBackend;
+}) {
+  const check = checkCost(cost, limits, step, backend);
+  return (
+    <div className="space-y-0.5 text-[11px]">
+      <p className="text-muted-foreground">
+        {stepMetrics(step, backend)
+          .map((metric) => `${COST_METRIC_LABELS[metric]} ~${formatCostValue(metric, cost[metric])}`)
+          .join(" · ")}
+      </p>
+      {check.blocked.map((reason) => (
+        <p key={reason} className="text-destructive">
+          {reason} — blocked
+        </p>
+      ))}
+      {check.confirm.map((reason) => (
+        <p key={reason} className="text-amber-600 dark:text-amber-400">
+          {reason} — will ask to confirm
+        </p>
+      ))}
+    </div>
+  );
+}
+
 interface Props {
   params: TerrainParams;
+  /** Tiles Step 1 would fetch; null when the area is outside the tile range */
+  tilePlan: TilePlan | null;
+  cost: CostEstimate | null;
+  costLimits: CostLimits;
+  /** Name of the loaded DEM file, which replaces tile downloads */
+  demName: string | null;
+  /** A GeoJSON outline clips the model */
+  hasOutline: boolean;
+  /** Effective size and ratios of the model for the current area */
+  modelScale: ModelScale;
   onChange: (params: TerrainParams) => void;
   onStep1: () => void;
+  onCancelStep1: () => void;
   onStep2: () => void;
   isFetching: boolean;
   isCompiling: boolean;
@@ -43,8 +167,15 @@ interface Props {
 
 export function TerrainControls({
   params,
+  tilePlan,
+  cost,
+  costLimits,
+  demName,
+  hasOutline,
+  modelScale,
   onChange,
   onStep1,
+  onCancelStep1,
   onStep2,
   isFetching,
   isCompiling,
@@ -54,149 +185,410 @@ export function TerrainControls({
     onChange({ ...params, [key]: value });
   const isStep2Active = step1Done;
 
-  const applyPreset = (preset: (typeof PRESETS)[number]) =>
-    onChange({ ...params, centerLat: preset.lat, centerLon: preset.lon });
+  const applyPreset = (preset: (typeof PRESETS)[number]) => {
+    const next = { ...params, centerLat: preset.lat, centerLon: preset.lon };
+    onChange(params.areaMode === "bbox" ? { ...next, bbox: areaToBbox(next) } : next);
+  };
+  const setAreaMode = (mode: AreaMode) => {
+    if (mode === params.areaMode) return;
+    // Bbox edits keep center/extents in sync, so only entering bbox mode needs a conversion
+    onChange(
+      mode === "bbox"
+        ? { ...params, areaMode: mode, bbox: areaToBbox(params) }
+        : { ...params, areaMode: mode }
+    );
+  };
+  const setBbox = (bbox: BBox) => onChange(applyBbox(params, bbox));
   const isPresetActive = (preset: (typeof PRESETS)[number]) =>
     Math.abs(params.centerLat - preset.lat) < 1e-6 &&
     Math.abs(params.centerLon - preset.lon) < 1e-6;
 
+  const selectSource = (id: string) => {
+    const preset = ELEVATION_SOURCES.find((s) => s.id === id);
+    if (preset) set("source", { ...preset });
+  };
+  const setSource = <K extends keyof ElevationSource>(key: K, value: ElevationSource[K]) =>
+    set("source", { ...params.source, [key]: value });
+  const isCustomSource = params.source.id === "custom";
+  const gridSize = outputGridSize(params.areaWidthKm, params.areaHeightKm, params.outputPx);
+  // DEM files are not limited to the Web Mercator tile range
+  const latitudeError = demName ? null : checkMercatorLatitudes(localAreaBbox(params));
+  const latitudeWarning = demName ? null : checkHighLatitude(localAreaBbox(params));
+  const step1Blocked = cost !== null && checkCost(cost, costLimits, 1).blocked.length > 0;
+  const scaleError = validateModelScale(params);
+  // Shown in the height curve panel
+  const windowError = validateHeightWindow(params);
+  const nativeUnsupported =
+    params.meshBackend === "native"
+      ? nativeMeshUnsupported(params.footprint, hasOutline)
+      : null;
+  const meshBackend = effectiveMeshBackend(params.meshBackend, params.footprint, hasOutline);
+  const step2Blocked =
+    cost !== null && checkCost(cost, costLimits, 2, meshBackend).blocked.length > 0;
+
   return (
     <div className="space-y-4">
-        <section className="space-y-4 rounded-lg border border-border bg-background/60 p-3">
-          <header className="flex items-baseline justify-between gap-2 border-b border-border pb-2">
-            <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">Step 1</h3>
-            <p className="text-[11px] text-muted-foreground">Fetch terrain data</p>
-          </header>
+      <section className="space-y-4 rounded-lg border border-border bg-background/60 p-3">
+        <header className="flex items-baseline justify-between gap-2 border-b border-border pb-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">Step 1</h3>
+          <p className="text-[11px] text-muted-foreground">Fetch terrain data</p>
+        </header>
 
-          <div className="space-y-1">
-            <Label className="flex items-center gap-1.5">
-              <MapPin className="h-3 w-3" />
-              Quick locations
-            </Label>
-            <div className="flex flex-wrap gap-1.5">
-              {PRESETS.map((p) => (
-                <button
-                  key={p.label}
-                  onClick={() => applyPreset(p)}
-                  className={`rounded-md border px-2 py-0.5 text-xs transition-colors ${
-                    isPresetActive(p)
-                      ? "border-foreground bg-muted text-foreground"
-                      : "border-border hover:bg-muted"
-                  }`}
-                >
-                  {p.label}
-                </button>
-              ))}
-            </div>
+        <div className="space-y-1">
+          <Label className="flex items-center gap-1.5">
+            <MapPin className="h-3 w-3" />
+            Quick locations
+          </Label>
+          <div className="flex flex-wrap gap-1.5">
+            {PRESETS.map((p) => (
+              <button
+                key={p.label}
+                onClick={() => applyPreset(p)}
+                className={`rounded-md border px-2 py-0.5 text-xs transition-colors ${
+                  isPresetActive(p)
+                    ? "border-foreground bg-muted text-foreground"
+                    : "border-border hover:bg-muted"
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Area</Label>
+          <div className="flex gap-1.5">
+            {AREA_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setAreaMode(mode)}
+                className={`flex-1 rounded-md border px-2 py-0.5 text-xs transition-colors ${
+                  params.areaMode === mode
+                    ? "border-foreground bg-muted text-foreground"
+                    : "border-border hover:bg-muted"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+        </div>
+
+        {params.areaMode === "center" ? (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="lat">Latitude</Label>
+                <Input
+                  id="lat"
+                  type="number"
+                  step="0.0001"
+                  min={-90}
+                  max={90}
+                  value={params.centerLat}
+                  onChange={(e) =>
+                    set("centerLat", Math.max(-90, Math.min(90, parseFloat(e.target.value) || 0)))
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lon">Longitude</Label>
+                <Input
+                  id="lon"
+                  type="number"
+                  step="0.0001"
+                  min={-180}
+                  max={180}
+                  value={params.centerLon}
+                  onChange={(e) => set("centerLon", normalizeLon(parseFloat(e.target.value) || 0))}
+                />
+              </div>
+            </div>
 
-          <div className="grid grid-cols-2 gap-3">
             <div className="space-y-1">
-              <Label htmlFor="lat">Latitude</Label>
-              <Input
-                id="lat"
-                type="number"
-                step="0.0001"
-                min={-90}
-                max={90}
-                value={params.centerLat}
-                onChange={(e) => set("centerLat", parseFloat(e.target.value) || 0)}
+              <Label>Width (E–W): {params.areaWidthKm} km</Label>
+              <Slider
+                min={1}
+                max={100}
+                step={1}
+                value={[params.areaWidthKm]}
+                onValueChange={([v]) => set("areaWidthKm", v)}
               />
             </div>
+
             <div className="space-y-1">
-              <Label htmlFor="lon">Longitude</Label>
-              <Input
-                id="lon"
-                type="number"
-                step="0.0001"
-                min={-180}
-                max={180}
-                value={params.centerLon}
-                onChange={(e) => set("centerLon", parseFloat(e.target.value) || 0)}
+              <Label>Height (N–S): {params.areaHeightKm} km</Label>
+              <Slider
+                min={1}
+                max={100}
+                step={1}
+                value={[params.areaHeightKm]}
+                onValueChange={([v]) => set("areaHeightKm", v)}
               />
             </div>
-          </div>
 
-          <div className="space-y-1">
-            <Label>Area: {params.areaKm} km</Label>
-            <Slider
-              min={1}
-              max={100}
-              step={1}
-              value={[params.areaKm]}
-              onValueChange={([v]) => set("areaKm", v)}
-            />
-          </div>
+            <p className="text-[11px] text-muted-foreground">
+              BBox (W,S,E,N):{" "}
+              <span className="select-all font-mono">{formatBbox(areaToBbox(params))}</span>
+            </p>
+          </>
+        ) : (
+          <>
+            <BboxInput bbox={params.bbox} onChange={setBbox} />
+            <p className="text-[11px] text-muted-foreground">
+              Center {params.centerLat.toFixed(4)}, {params.centerLon.toFixed(4)} ·{" "}
+              {params.areaWidthKm} × {params.areaHeightKm} km
+            </p>
+            <p className="text-[11px] text-muted-foreground">
+              The model is a metric rectangle of this size around the center, so its edges
+              only approximate the bbox (more so for large or high-latitude boxes).
+            </p>
+          </>
+        )}
 
-          <div className="space-y-1">
-            <Label>Resolution</Label>
-            <Select
-              value={String(params.outputPx)}
-              onValueChange={(v) => set("outputPx", parseInt(v))}
-            >
-              <SelectTrigger className="w-full">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="100">100 px (fast)</SelectItem>
-                <SelectItem value="200">200 px</SelectItem>
-                <SelectItem value="300">300 px</SelectItem>
-                <SelectItem value="512">512 px (slow)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+        {latitudeError && <p className="text-[11px] text-destructive">{latitudeError}</p>}
+        {latitudeWarning && (
+          <p className="text-[11px] text-muted-foreground">{latitudeWarning}</p>
+        )}
 
-          <div className="space-y-1">
-            <Label>Zoom level</Label>
-            <Select
-              value={String(params.zoom)}
-              onValueChange={(v) => set("zoom", parseInt(v))}
-            >
-              <SelectTrigger className="w-full">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {[8, 9, 10, 11, 12, 13, 14].map((z) => (
-                  <SelectItem key={z} value={String(z)}>
-                    {z}
+        <div className="space-y-1">
+          <Label>Resolution (longer side): {gridSize.width}×{gridSize.height} px</Label>
+          <Select
+            value={String(params.outputPx)}
+            onValueChange={(v) => set("outputPx", parseInt(v))}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="100">100 px (fast)</SelectItem>
+              <SelectItem value="200">200 px</SelectItem>
+              <SelectItem value="300">300 px</SelectItem>
+              <SelectItem value="512">512 px (slow)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={params.resampleKernel}
+            onValueChange={(v) => set("resampleKernel", v as ResampleKernel)}
+          >
+            <SelectTrigger className="w-full" aria-label="Resampling kernel">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RESAMPLE_KERNEL_LABELS) as ResampleKernel[]).map((kernel) => (
+                <SelectItem key={kernel} value={kernel}>
+                  {RESAMPLE_KERNEL_LABELS[kernel]} resampling
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {demName ? (
+          <p className="text-[11px] text-muted-foreground">
+            Elevation from {demName}; zoom and tile source are ignored.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Label>Zoom level</Label>
+              <Select
+                value={String(params.zoom)}
+                onValueChange={(v) => set("zoom", v === "auto" ? "auto" : parseInt(v))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">
+                    Auto{params.zoom === "auto" && tilePlan ? ` (${tilePlan.zoom})` : ""}
                   </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+                  {[8, 9, 10, 11, 12, 13, 14].map((z) => (
+                    <SelectItem key={z} value={String(z)}>
+                      {z}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {tilePlan && (
+                <p className="text-[11px] text-muted-foreground">
+                  {tilePlan.tileCount} tile{tilePlan.tileCount === 1 ? "" : "s"} (~
+                  {formatSize(tilePlan.estimatedBytes)}) · source{" "}
+                  {tilePlan.sourceMetersPerPx.toFixed(1)} m/px → output{" "}
+                  {tilePlan.outputMetersPerPx.toFixed(1)} m/px
+                  {tilePlan.sourceMetersPerPx > tilePlan.outputMetersPerPx * 1.5 &&
+                    " (upsampled, consider a higher zoom)"}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label>Elevation source</Label>
+              <Select value={params.source.id} onValueChange={selectSource}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ELEVATION_SOURCES.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {params.source.id !== "terrarium" && (
+              <div className="space-y-1">
+                <Label htmlFor="source-url">Tile URL template</Label>
+                <Input
+                  id="source-url"
+                  value={params.source.urlTemplate}
+                  placeholder="https://example.com/{z}/{x}/{y}.png"
+                  onChange={(e) => setSource("urlTemplate", e.target.value)}
+                />
+                <p className="text-[11px] text-muted-foreground">
+                  Use {"{z}"}, {"{x}"}, {"{y}"} ({"{-y}"} for TMS rows).
+                </p>
+              </div>
+            )}
+
+            {isCustomSource && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Encoding</Label>
+                  <Select
+                    value={params.source.encoding}
+                    onValueChange={(v) => setSource("encoding", v as ElevationEncoding)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ENCODING_LABELS) as ElevationEncoding[]).map((enc) => (
+                        <SelectItem key={enc} value={enc}>
+                          {ENCODING_LABELS[enc]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Tile size</Label>
+                  <Select
+                    value={String(params.source.tileSize)}
+                    onValueChange={(v) => setSource("tileSize", parseInt(v))}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[256, 512].map((size) => (
+                        <SelectItem key={size} value={String(size)}>
+                          {size} px
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+          </>
+        )}
 
+        <div className="space-y-1">
+          <Label>Missing data</Label>
+          <Select
+            value={params.missingData}
+            onValueChange={(v) => set("missingData", v as MissingDataMode)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fail">Stop on failed tiles</SelectItem>
+              <SelectItem value="idw">Fill holes (inverse distance)</SelectItem>
+              <SelectItem value="laplacian">Fill holes (Laplacian)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
           <Button
-            className="w-full"
+            className="flex-1"
             onClick={onStep1}
-            disabled={isFetching || isCompiling}
+            disabled={isFetching || isCompiling || latitudeError !== null || step1Blocked}
           >
             {isFetching ? (
               <>
                 <Loader2 className="h-4 w-4 animate-spin" />
-                Downloading…
+                {demName ? "Sampling…" : "Downloading…"}
               </>
             ) : (
               <>
                 <Globe className="h-4 w-4" />
-                Download Terrain
+                {demName ? "Sample DEM" : "Download Terrain"}
               </>
             )}
           </Button>
-        </section>
+          {isFetching && (
+            <Button variant="outline" onClick={onCancelStep1}>
+              <X className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+        </div>
+        {cost && (tilePlan || demName) && (
+          <CostSummary cost={cost} limits={costLimits} step={1} />
+        )}
+      </section>
 
-        <section
-          aria-disabled={!isStep2Active}
-          className={`space-y-4 rounded-lg border p-3 transition-opacity ${
-            isStep2Active ? "border-border bg-background/60 opacity-100" : "border-border/70 bg-muted/30 opacity-50"
-          }`}
-        >
-          <header className="flex items-baseline justify-between gap-2 border-b border-border pb-2">
-            <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">Step 2</h3>
-            <p className="text-[11px] text-muted-foreground">Generate 3D model</p>
-          </header>
+      <section
+        aria-disabled={!isStep2Active}
+        className={`space-y-4 rounded-lg border p-3 transition-opacity ${
+          isStep2Active ? "border-border bg-background/60 opacity-100" : "border-border/70 bg-muted/30 opacity-50"
+        }`}
+      >
+        <header className="flex items-baseline justify-between gap-2 border-b border-border pb-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">Step 2</h3>
+          <p className="text-[11px] text-muted-foreground">Generate 3D model</p>
+        </header>
 
+        <div className="space-y-1">
+          <Label>Size by</Label>
+          <Select value={params.sizeMode} onValueChange={(v) => set("sizeMode", v as SizeMode)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SIZE_MODE_LABELS) as SizeMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {SIZE_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {params.sizeMode === "ratio" ? (
+          <div className="space-y-1">
+            <Label htmlFor="scale-denominator">Map scale 1:</Label>
+            <Input
+              id="scale-denominator"
+              type="number"
+              min={1}
+              step={1000}
+              value={params.scaleDenominator}
+              onChange={(e) => set("scaleDenominator", parseFloat(e.target.value) || 0)}
+            />
+            <p className="text-[11px] text-muted-foreground">
+              Model (longer side): {modelScale.modelMm.toFixed(1)} mm
+            </p>
+          </div>
+        ) : (
           <div className="space-y-1">
-            <Label>Model size: {params.modelMm} mm</Label>
+            <Label>Model size (longer side): {params.modelMm} mm</Label>
             <Slider
               min={20}
               max={300}
@@ -204,8 +596,76 @@ export function TerrainControls({
               value={[params.modelMm]}
               onValueChange={([v]) => set("modelMm", v)}
             />
+            <p className="text-[11px] text-muted-foreground">
+              Map scale {formatScaleRatio(modelScale.scaleDenominator)}
+            </p>
           </div>
+        )}
 
+        <div className="space-y-1">
+          <Label>Footprint</Label>
+          <Select value={params.footprint} onValueChange={(v) => set("footprint", v as Footprint)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FOOTPRINT_LABELS) as Footprint[]).map((footprint) => (
+                <SelectItem key={footprint} value={footprint}>
+                  {FOOTPRINT_LABELS[footprint]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {params.footprint === "rounded" && (
+          <div className="space-y-1">
+            <Label>Corner radius: {params.cornerRadiusMm} mm</Label>
+            <Slider
+              min={1}
+              max={50}
+              step={1}
+              value={[params.cornerRadiusMm]}
+              onValueChange={([v]) => set("cornerRadiusMm", v)}
+            />
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label>Vertical scale</Label>
+          <Select
+            value={params.verticalMode}
+            onValueChange={(v) => set("verticalMode", v as VerticalMode)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VERTICAL_MODE_LABELS) as VerticalMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {VERTICAL_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {params.verticalMode === "mmPer1000m" ? (
+          <div className="space-y-1">
+            <Label>Vertical scale: {params.zMmPer1000m} mm per 1000 m</Label>
+            <Slider
+              min={1}
+              max={100}
+              step={0.5}
+              value={[params.zMmPer1000m]}
+              onValueChange={([v]) => set("zMmPer1000m", v)}
+            />
+            <p className="text-[11px] text-muted-foreground">
+              {modelScale.zExag.toFixed(2)}× exaggeration,{" "}
+              {formatScaleRatio(modelScale.verticalDenominator)} vertical
+            </p>
+          </div>
+        ) : (
           <div className="space-y-1">
             <Label>Z exaggeration: {params.zExag.toFixed(1)}x</Label>
             <Slider
@@ -215,37 +675,107 @@ export function TerrainControls({
               value={[params.zExag]}
               onValueChange={([v]) => set("zExag", v)}
             />
+            <p className="text-[11px] text-muted-foreground">
+              {modelScale.zMmPer1000m.toFixed(1)} mm per 1000 m,{" "}
+              {formatScaleRatio(modelScale.verticalDenominator)} vertical
+            </p>
           </div>
+        )}
+        {scaleError && <p className="text-[11px] text-destructive">{scaleError}</p>}
 
-          <div className="space-y-1">
-            <Label>Base: {params.baseMm} mm</Label>
-            <Slider
-              min={0}
-              max={20}
-              step={1}
-              value={[params.baseMm]}
-              onValueChange={([v]) => set("baseMm", v)}
+        <div className="space-y-1">
+          <Label>Base: {params.baseMm} mm</Label>
+          <Slider
+            min={0}
+            max={20}
+            step={1}
+            value={[params.baseMm]}
+            onValueChange={([v]) => set("baseMm", v)}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Label>Base top at</Label>
+          <Select
+            value={params.baseReference}
+            onValueChange={(v) => set("baseReference", v as BaseReference)}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BASE_REFERENCE_LABELS) as BaseReference[]).map((reference) => (
+                <SelectItem key={reference} value={reference}>
+                  {BASE_REFERENCE_LABELS[reference]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {params.baseReference === "custom" && (
+            <Input
+              type="number"
+              aria-label="Base elevation (m)"
+              value={params.baseElevation}
+              onChange={(e) => set("baseElevation", parseFloat(e.target.value) || 0)}
             />
-          </div>
+          )}
+          {params.baseReference !== "terrainMin" && (
+            <p className="text-[11px] text-muted-foreground">
+              Prints sharing a datum show comparable heights; terrain below it rests on the base.
+            </p>
+          )}
+        </div>
 
-          <Button
-            className="w-full"
-            onClick={onStep2}
-            disabled={!step1Done || isCompiling || isFetching}
+        <div className="space-y-1">
+          <Label>Mesh generator</Label>
+          <Select
+            value={params.meshBackend}
+            onValueChange={(v) => set("meshBackend", v as MeshBackend)}
           >
-            {isCompiling ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Compiling…
-              </>
-            ) : (
-              <>
-                <Cog className="h-4 w-4" />
-                Generate STL
-              </>
-            )}
-          </Button>
-        </section>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MESH_BACKEND_LABELS) as MeshBackend[]).map((backend) => (
+                <SelectItem key={backend} value={backend}>
+                  {MESH_BACKEND_LABELS[backend]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {nativeUnsupported && (
+            <p className="text-[11px] text-muted-foreground">
+              {nativeUnsupported}; it will be used instead.
+            </p>
+          )}
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={onStep2}
+          disabled={
+            !step1Done ||
+            isCompiling ||
+            isFetching ||
+            step2Blocked ||
+            scaleError !== null ||
+            windowError !== null
+          }
+        >
+          {isCompiling ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Compiling…
+            </>
+          ) : (
+            <>
+              <Cog className="h-4 w-4" />
+              Generate STL
+            </>
+          )}
+        </Button>
+        {cost && <CostSummary cost={cost} limits={costLimits} step={2} backend={meshBackend} />}
+      </section>
     </div>
   );
 }
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  clearTileCache,
+  getTileCacheBudget,
+  getTileCacheStats,
+  setTileCacheBudget,
+  type TileCacheStats,
+} from "@/lib/tile-cache";
+import { formatSize } from "@/lib/format";
+import { Database, Trash2 } from "lucide-react";
+
+const MB = 1024 * 1024;
+const BUDGET_OPTIONS = [0, 50 * MB, 200 * MB, 500 * MB, 1024 * MB];
+
+interface Props {
+  /** Bump to re-read cache stats, e.g. after a terrain download */
+  refreshKey: number;
+  onLog?: (message: string) => void;
+}
+
+export function TileCachePanel({ refreshKey, onLog }: Props) {
+  const [stats, setStats] = useState<TileCacheStats | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+  const [budget, setBudget] = useState(getTileCacheBudget);
+
+  const refresh = useCallback(
+    () =>
+      getTileCacheStats().then(
+        (next) => {
+          setStats(next);
+          setUnavailable(false);
+        },
+        () => setUnavailable(true)
+      ),
+    []
+  );
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, refreshKey]);
+
+  const handleBudgetChange = async (value: string) => {
+    const bytes = parseInt(value);
+    setBudget(bytes);
+    try {
+      await setTileCacheBudget(bytes);
+      onLog?.(bytes === 0 ? "Tile cache disabled" : `Tile cache budget set to ${formatSize(bytes)}`);
+    } catch (e) {
+      onLog?.(`Tile cache budget not applied: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearTileCache();
+      onLog?.("Tile cache cleared");
+    } catch (e) {
+      onLog?.(`Tile cache not cleared: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Database className="h-3.5 w-3.5" />
+          Tile cache
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {unavailable ? (
+          <div className="text-xs text-muted-foreground">
+            Persistent storage is unavailable in this browser.
+          </div>
+        ) : (
+          <>
+            <div className="text-xs text-muted-foreground">
+              {stats
+                ? `${stats.tileCount} tiles, ${formatSize(stats.bytes)} of ${formatSize(stats.budgetBytes)}`
+                : "Reading cache…"}
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label>Size limit</Label>
+                <Select value={String(budget)} onValueChange={handleBudgetChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUDGET_OPTIONS.map((bytes) => (
+                      <SelectItem key={bytes} value={String(bytes)}>
+                        {bytes === 0 ? "Off" : formatSize(bytes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClear}
+                disabled={!stats || stats.tileCount === 0}
+              >
+                <Trash2 />
+                Clear
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
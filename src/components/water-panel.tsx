@@ -0,0 +1,111 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  WATER_MODE_LABELS,
+  type WaterMode,
+  type WaterSettings,
+  type WaterStats,
+} from "@/lib/water";
+import { Waves } from "lucide-react";
+
+interface Props {
+  settings: WaterSettings;
+  onChange: (patch: Partial<WaterSettings>) => void;
+  /** What the water stage did to the current heightmap of `cellCount` cells */
+  stats: WaterStats | null;
+  cellCount: number;
+}
+
+export function WaterPanel({ settings, onChange, stats, cellCount }: Props) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-1.5">
+          <Waves className="h-3.5 w-3.5" />
+          Water
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label>Below sea level</Label>
+          <Select
+            value={settings.waterMode}
+            onValueChange={(v) => onChange({ waterMode: v as WaterMode })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WATER_MODE_LABELS) as WaterMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {WATER_MODE_LABELS[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.waterMode !== "off" && (
+          <div className="space-y-1">
+            <Label htmlFor="sea-level">Sea level (m)</Label>
+            <Input
+              id="sea-level"
+              type="number"
+              step="1"
+              value={settings.seaLevel}
+              onChange={(e) => onChange({ seaLevel: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+        )}
+
+        {settings.waterMode === "bathymetry" && (
+          <div className="space-y-1">
+            <Label>Bathymetry exaggeration: {settings.bathymetryExag.toFixed(1)}x</Label>
+            <Slider
+              min={0.1}
+              max={10}
+              step={0.1}
+              value={[settings.bathymetryExag]}
+              onValueChange={([v]) => onChange({ bathymetryExag: v })}
+            />
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label>Lakes</Label>
+          <Select
+            value={settings.flattenLakes ? "flatten" : "keep"}
+            onValueChange={(v) => onChange({ flattenLakes: v === "flatten" })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="keep">Keep as terrain</SelectItem>
+              <SelectItem value="flatten">Flatten detected lakes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {stats && cellCount > 0 && (
+          <p className="text-[11px] text-muted-foreground">
+            {settings.waterMode !== "off" &&
+              `${((stats.seaCells / cellCount) * 100).toFixed(1)}% below sea level`}
+            {settings.waterMode !== "off" && settings.flattenLakes && " · "}
+            {settings.flattenLakes &&
+              `${stats.lakeCount} lake${stats.lakeCount === 1 ? "" : "s"} (${((stats.lakeCells / cellCount) * 100).toFixed(1)}%)`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+// Which elevation sits on top of the model base
+
+export type BaseReference = "terrainMin" | "seaLevel" | "custom";
+
+export const BASE_REFERENCE_LABELS: Record<BaseReference, string> = {
+  terrainMin: "Terrain minimum",
+  seaLevel: "Sea level (0 m)",
+  custom: "Custom elevation",
+};
+
+export interface BaseReferenceSettings {
+  baseReference: BaseReference;
+  /** Meters, for the "custom" reference */
+  baseElevation: number;
+}
+
+/** Datum for terrain whose lowest point is `elevMin` */
+export function baseDatum(settings: BaseReferenceSettings, elevMin: number): number {
+  switch (settings.baseReference) {
+    case "terrainMin":
+      return elevMin;
+    case "seaLevel":
+      return 0;
+    case "custom":
+      return settings.baseElevation;
+  }
+}
+
+/** Header description; undefined for the terrain minimum, which needs no note */
+export function describeBaseReference(settings: BaseReferenceSettings): string | undefined {
+  switch (settings.baseReference) {
+    case "terrainMin":
+      return undefined;
+    case "seaLevel":
+      return "sea level (0 m)";
+    case "custom":
+      return `${settings.baseElevation} m`;
+  }
+}
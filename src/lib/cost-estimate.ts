@@ -0,0 +1,158 @@
+// Pre-flight estimates of fetch and compile cost, and the limits that guard them
+
+import { formatSize } from "./format";
+import type { MeshBackend } from "./mesh";
+import type { TilePlan } from "./terrain";
+
+export interface CostEstimate {
+  tiles: number;
+  downloadBytes: number;
+  triangles: number;
+  stlBytes: number;
+  wasmBytes: number;
+}
+
+export type CostMetric = keyof CostEstimate;
+
+/** A run above `confirm` asks first; above `block` it is refused. 0 disables a limit. */
+export interface CostLimit {
+  confirm: number;
+  block: number;
+}
+
+export type CostLimits = Record<CostMetric, CostLimit>;
+
+export const COST_METRIC_LABELS: Record<CostMetric, string> = {
+  tiles: "Tiles",
+  downloadBytes: "Download",
+  triangles: "Triangles",
+  stlBytes: "STL size",
+  wasmBytes: "WASM memory",
+};
+
+/** Metrics that guard Step 1 (fetch) and Step 2 (compile) */
+export const STEP_METRICS: Record<1 | 2, CostMetric[]> = {
+  1: ["tiles", "downloadBytes"],
+  2: ["triangles", "stlBytes", "wasmBytes"],
+};
+
+/** STEP_METRICS for a run; the native mesher needs no OpenSCAD WASM memory */
+export function stepMetrics(step: 1 | 2, backend: MeshBackend = "openscad"): CostMetric[] {
+  return step === 2 && backend === "native"
+    ? STEP_METRICS[2].filter((metric) => metric !== "wasmBytes")
+    : STEP_METRICS[step];
+}
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_COST_LIMITS: CostLimits = {
+  tiles: { confirm: 150, block: 1500 },
+  downloadBytes: { confirm: 50 * MB, block: 500 * MB },
+  triangles: { confirm: 1_000_000, block: 0 },
+  stlBytes: { confirm: 100 * MB, block: 0 },
+  // 32-bit WASM cannot grow past 4 GB and browsers often stop near 2 GB
+  wasmBytes: { confirm: 1024 * MB, block: 2048 * MB },
+};
+
+const LIMITS_STORAGE_KEY = "terrain-cost-limits";
+
+export function getCostLimits(): CostLimits {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIMITS_STORAGE_KEY) ?? "{}");
+    const limits = { ...DEFAULT_COST_LIMITS };
+    for (const metric of Object.keys(DEFAULT_COST_LIMITS) as CostMetric[]) {
+      const { confirm, block } = stored?.[metric] ?? {};
+      if (Number.isFinite(confirm) && Number.isFinite(block) && confirm >= 0 && block >= 0) {
+        limits[metric] = { confirm, block };
+      }
+    }
+    return limits;
+  } catch {
+    return DEFAULT_COST_LIMITS;
+  }
+}
+
+export function setCostLimits(limits: CostLimits): void {
+  try {
+    localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+  } catch {
+    /* storage may be blocked; the limits then only last for this session */
+  }
+}
+
+/**
+ * Triangles of the surface() mesh (two per grid cell on top, walls along the
+ * edges, a fan-triangulated bottom) plus the base slab. Footprint and
+ * outline clipping add a seam along the cut, which this ignores.
+ */
+export function estimateTriangles(gridWidth: number, gridHeight: number): number {
+  const cells = (gridWidth - 1) * (gridHeight - 1);
+  const perimeter = 2 * (gridWidth - 1 + gridHeight - 1);
+  // Two triangles per wall segment, about one per bottom fan segment
+  return 2 * cells + 3 * perimeter + 12;
+}
+
+/**
+ * Empirical Manifold footprint: the OpenSCAD runtime itself (~80 MB), the
+ * heightmap.dat text (~8 bytes per cell) and roughly 1 KB per triangle
+ * across the mesh copies made by surface(), union and STL export.
+ */
+function estimateWasmBytes(gridWidth: number, gridHeight: number, triangles: number): number {
+  return 80 * MB + gridWidth * gridHeight * 8 + triangles * 1024;
+}
+
+/**
+ * Cost of fetching `plan` and compiling a `gridWidth`×`gridHeight` heightmap.
+ * A null plan means nothing is downloaded (a local DEM file).
+ */
+export function estimateCost(
+  plan: TilePlan | null,
+  gridWidth: number,
+  gridHeight: number
+): CostEstimate {
+  const triangles = estimateTriangles(gridWidth, gridHeight);
+  return {
+    tiles: plan?.tileCount ?? 0,
+    downloadBytes: plan?.estimatedBytes ?? 0,
+    triangles,
+    // Binary STL: 80-byte header, 4-byte count, 50 bytes per triangle
+    stlBytes: 84 + triangles * 50,
+    wasmBytes: estimateWasmBytes(gridWidth, gridHeight, triangles),
+  };
+}
+
+export function formatCostValue(metric: CostMetric, value: number): string {
+  switch (metric) {
+    case "tiles":
+      return String(value);
+    case "triangles":
+      return value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)} M` : value.toLocaleString("en-US");
+    default:
+      return formatSize(value);
+  }
+}
+
+export interface CostCheck {
+  /** Reasons the run is refused */
+  blocked: string[];
+  /** Reasons to ask before running */
+  confirm: string[];
+}
+
+export function checkCost(
+  estimate: CostEstimate,
+  limits: CostLimits,
+  step: 1 | 2,
+  backend: MeshBackend = "openscad"
+): CostCheck {
+  const check: CostCheck = { blocked: [], confirm: [] };
+  for (const metric of stepMetrics(step, backend)) {
+    const value = estimate[metric];
+    const { confirm, block } = limits[metric];
+    const describe = (limit: number) =>
+      `${COST_METRIC_LABELS[metric]} ~${formatCostValue(metric, value)} exceeds ${formatCostValue(metric, limit)}`;
+    if (block > 0 && value > block) check.blocked.push(describe(block));
+    else if (confirm > 0 && value > confirm) check.confirm.push(describe(confirm));
+  }
+  return check;
+}
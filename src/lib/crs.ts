@@ -0,0 +1,144 @@
+// Coordinate reference systems of imported rasters: geographic, Web Mercator and UTM
+
+import { normalizeLon } from "./geo";
+
+export type RasterCrs =
+  | { kind: "geographic" }
+  | { kind: "webmercator" }
+  | { kind: "utm"; zone: number; north: boolean };
+
+const DEG = Math.PI / 180;
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const UTM_K0 = 0.9996;
+
+/**
+ * Map an EPSG code to a supported CRS. NAD83 and ETRS89 UTM zones are
+ * treated as WGS84 UTM; the datum shift is well below a DEM cell.
+ */
+export function crsFromEpsg(code: number): RasterCrs | null {
+  if (code === 4326 || code === 4269 || code === 4258) return { kind: "geographic" };
+  if (code === 3857 || code === 900913 || code === 3785) return { kind: "webmercator" };
+  if (code >= 32601 && code <= 32660) return { kind: "utm", zone: code - 32600, north: true };
+  if (code >= 32701 && code <= 32760) return { kind: "utm", zone: code - 32700, north: false };
+  if (code >= 26901 && code <= 26923) return { kind: "utm", zone: code - 26900, north: true };
+  if (code >= 25828 && code <= 25838) return { kind: "utm", zone: code - 25800, north: true };
+  return null;
+}
+
+export function describeCrs(crs: RasterCrs): string {
+  switch (crs.kind) {
+    case "geographic":
+      return "Geographic lat/lon";
+    case "webmercator":
+      return "Web Mercator";
+    case "utm":
+      return `UTM zone ${crs.zone}${crs.north ? "N" : "S"}`;
+  }
+}
+
+/** Meridian arc length from the equator to `lat` (radians) */
+function meridianArc(lat: number): number {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  return (
+    A *
+    ((1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * lat -
+      ((3 * E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * lat) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * lat) -
+      ((35 * e6) / 3072) * Math.sin(6 * lat))
+  );
+}
+
+/** Transverse Mercator series (Snyder, Map Projections 1987, pp. 61–64) */
+function utmForward(lat: number, lon: number, zone: number, north: boolean): [number, number] {
+  const phi = lat * DEG;
+  const lon0 = (zone - 1) * 6 - 180 + 3;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+  const n = A / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * normalizeLon(lon - lon0) * DEG;
+  const m = meridianArc(phi);
+
+  const x =
+    UTM_K0 *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    500000;
+  const y =
+    UTM_K0 *
+    (m +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720));
+  return [x, north ? y : y + 10000000];
+}
+
+function utmInverse(x: number, y: number, zone: number, north: boolean): [number, number] {
+  const lon0 = (zone - 1) * 6 - 180 + 3;
+  const m = (north ? y : y - 10000000) / UTM_K0;
+  const mu = m / (A * (1 - E2 / 4 - (3 * E2 * E2) / 64 - (5 * E2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const t1 = Math.tan(phi1) ** 2;
+  const n1 = A / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const r1 = (A * (1 - E2)) / (1 - E2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = (x - 500000) / (n1 * UTM_K0);
+
+  const lat =
+    phi1 -
+    ((n1 * Math.tan(phi1)) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lon =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120) /
+    cosPhi1;
+  return [lat / DEG, normalizeLon(lon0 + lon / DEG)];
+}
+
+/** Projected [x, y] (degrees for geographic: [lon, lat]) */
+export function lonLatToCrs(crs: RasterCrs, lat: number, lon: number): [number, number] {
+  switch (crs.kind) {
+    case "geographic":
+      return [lon, lat];
+    case "webmercator":
+      return [A * lon * DEG, A * Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2))];
+    case "utm":
+      return utmForward(lat, lon, crs.zone, crs.north);
+  }
+}
+
+/** [lat, lon] of a projected point */
+export function crsToLatLon(crs: RasterCrs, x: number, y: number): [number, number] {
+  switch (crs.kind) {
+    case "geographic":
+      return [y, normalizeLon(x)];
+    case "webmercator":
+      return [(2 * Math.atan(Math.exp(y / A)) - Math.PI / 2) / DEG, normalizeLon(x / A / DEG)];
+    case "utm":
+      return utmInverse(x, y, crs.zone, crs.north);
+  }
+}
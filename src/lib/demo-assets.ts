@@ -1,56 +1,15 @@
 import type { HeightmapResult } from "./terrain";
+import { datToHeightmap, parseDatHeightmap } from "./heightmap-import";
 
 const DEMO_HEIGHTMAP_URL = "/assets/terrain/heightmap_everest.dat";
 const DEMO_STL_URL = "/assets/terrain/terrain_everest.stl";
+// The bundled demo was generated with the default 20 km × 20 km area around Everest
+const DEMO_AREA = { centerLat: 27.9881, centerLon: 86.925, areaWidthKm: 20, areaHeightKm: 20 };
 
 export interface DemoTerrainAssets extends HeightmapResult {
   stlData: Uint8Array;
 }
 
-function parseDatHeightmap(content: string): HeightmapResult {
-  const rows = content
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
-
-  if (rows.length === 0) {
-    throw new Error("Demo heightmap is empty");
-  }
-
-  const firstRowValues = rows[0].split(/\s+/);
-  const width = firstRowValues.length;
-  const height = rows.length;
-  if (width === 0) {
-    throw new Error("Demo heightmap has no columns");
-  }
-
-  const heightmap = new Uint8Array(width * height);
-  let elevMin = Infinity;
-  let elevMax = -Infinity;
-
-  for (let y = 0; y < height; y++) {
-    const values = rows[y].split(/\s+/);
-    if (values.length !== width) {
-      throw new Error(`Demo heightmap row ${y + 1} has inconsistent column count`);
-    }
-
-    // .dat rows are bottom-up for OpenSCAD, convert back to top-down image rows.
-    const targetY = height - 1 - y;
-    for (let x = 0; x < width; x++) {
-      const parsed = Number(values[x]);
-      if (!Number.isFinite(parsed)) {
-        throw new Error(`Demo heightmap has invalid value at row ${y + 1}, col ${x + 1}`);
-      }
-      const value = Math.max(0, Math.min(255, Math.round(parsed)));
-      heightmap[targetY * width + x] = value;
-      elevMin = Math.min(elevMin, value);
-      elevMax = Math.max(elevMax, value);
-    }
-  }
-
-  return { heightmap, width, height, elevMin, elevMax };
-}
-
 export async function loadDemoTerrainAssets(): Promise<DemoTerrainAssets> {
   const [datResponse, stlResponse] = await Promise.all([
     fetch(DEMO_HEIGHTMAP_URL),
@@ -70,7 +29,8 @@ export async function loadDemoTerrainAssets(): Promise<DemoTerrainAssets> {
   ]);
 
   return {
-    ...parseDatHeightmap(datContent),
+    // The demo .dat holds meters above the lowest point
+    ...datToHeightmap(parseDatHeightmap(datContent, "Demo heightmap"), { ...DEMO_AREA, datum: 0 }),
     stlData: new Uint8Array(stlBuffer),
   };
 }
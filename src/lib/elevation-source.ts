@@ -0,0 +1,125 @@
+// Elevation tile sources — URL templates and per-encoding decoders
+
+export type ElevationEncoding = "terrarium" | "mapbox" | "float32" | "int16";
+
+export interface ElevationSource {
+  id: string;
+  label: string;
+  /** Tile URL with {z}, {x}, {y} placeholders ({-y} for TMS row order) */
+  urlTemplate: string;
+  tileSize: number;
+  encoding: ElevationEncoding;
+}
+
+export interface DecodedTile {
+  elev: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const ELEVATION_SOURCES: ElevationSource[] = [
+  {
+    id: "terrarium",
+    label: "Terrarium (AWS)",
+    urlTemplate: "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png",
+    tileSize: 256,
+    encoding: "terrarium",
+  },
+  {
+    id: "mapbox",
+    label: "Mapbox Terrain-RGB",
+    urlTemplate:
+      "https://api.mapbox.com/v4/mapbox.terrain-rgb/{z}/{x}/{y}.pngraw?access_token=YOUR_TOKEN",
+    tileSize: 256,
+    encoding: "mapbox",
+  },
+  {
+    id: "custom",
+    label: "Custom tile server",
+    urlTemplate: "/tiles/{z}/{x}/{y}.png",
+    tileSize: 256,
+    encoding: "terrarium",
+  },
+];
+
+export const DEFAULT_ELEVATION_SOURCE = ELEVATION_SOURCES[0];
+
+export const ENCODING_LABELS: Record<ElevationEncoding, string> = {
+  terrarium: "Terrarium RGB",
+  mapbox: "Mapbox Terrain-RGB",
+  float32: "Raw Float32 (LE)",
+  int16: "Raw Int16 (LE)",
+};
+
+export function tileUrl(source: ElevationSource, z: number, x: number, y: number): string {
+  return source.urlTemplate
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{-y}", String((1 << z) - 1 - y))
+    .replace("{y}", String(y));
+}
+
+/** Human-readable source summary for logs and SCAD headers (API tokens stripped) */
+export function describeElevationSource(source: ElevationSource): string {
+  const url = source.urlTemplate.replace(/([?&](?:access_token|token|key|apikey)=)[^&]*/gi, "$1…");
+  return `${source.label} (${ENCODING_LABELS[source.encoding]}, ${source.tileSize} px) ${url}`;
+}
+
+// ── Decoders ──────────────────────────────────────────────────────
+// NoData samples decode to NaN: transparent pixels in RGB tiles, and the
+// usual sentinel values (or NaN) in raw tiles.
+const RAW_NODATA_VALUES = new Set([-32768, -32767, -9999, -3.4028234663852886e38]);
+
+async function decodeRgbTile(
+  blob: Blob,
+  decodePixel: (r: number, g: number, b: number) => number
+): Promise<DecodedTile> {
+  const bmp = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(bmp.width, bmp.height);
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(bmp, 0, 0);
+  const { data, width, height } = ctx.getImageData(0, 0, bmp.width, bmp.height);
+
+  const elev = new Float32Array(width * height);
+  for (let i = 0; i < elev.length; i++) {
+    const off = i * 4;
+    elev[i] = data[off + 3] === 0 ? NaN : decodePixel(data[off], data[off + 1], data[off + 2]);
+  }
+  return { elev, width, height };
+}
+
+function decodeRawTile(buffer: ArrayBuffer, source: ElevationSource): DecodedTile {
+  const size = source.tileSize;
+  const bytesPerSample = source.encoding === "float32" ? 4 : 2;
+  if (buffer.byteLength !== size * size * bytesPerSample) {
+    throw new Error(
+      `Raw tile is ${buffer.byteLength} bytes, expected ${size * size * bytesPerSample} for ${size}×${size} ${source.encoding}`
+    );
+  }
+
+  const view = new DataView(buffer);
+  const elev = new Float32Array(size * size);
+  for (let i = 0; i < elev.length; i++) {
+    const v =
+      source.encoding === "float32"
+        ? view.getFloat32(i * 4, true)
+        : view.getInt16(i * 2, true);
+    elev[i] = RAW_NODATA_VALUES.has(v) ? NaN : v;
+  }
+  return { elev, width: size, height: size };
+}
+
+export async function decodeTileResponse(
+  res: Response,
+  source: ElevationSource
+): Promise<DecodedTile> {
+  switch (source.encoding) {
+    case "terrarium":
+      return decodeRgbTile(await res.blob(), (r, g, b) => r * 256 + g + b / 256 - 32768);
+    case "mapbox":
+      return decodeRgbTile(await res.blob(), (r, g, b) => -10000 + (r * 65536 + g * 256 + b) * 0.1);
+    case "float32":
+    case "int16":
+      return decodeRawTile(await res.arrayBuffer(), source);
+  }
+}
@@ -0,0 +1,95 @@
+// Bounded-concurrency task pool and retry-with-backoff helpers for tile fetching
+
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+/** Network failures, throttling and server errors are worth retrying; 4xx client errors are not. */
+function isRetryable(err: unknown): boolean {
+  if (isAbortError(err)) return false;
+  if (err instanceof HttpStatusError) return err.status === 408 || err.status === 429 || err.status >= 500;
+  return true;
+}
+
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, signal, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+      // Exponential backoff with full jitter
+      const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      onRetry?.(attempt + 1, delayMs, err);
+      await abortableDelay(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Run tasks with at most `concurrency` in flight. Rejects on the first failure
+ * and stops starting new tasks once it has failed or the signal is aborted.
+ */
+export async function runPool<T>(
+  tasks: Array<() => Promise<T>>,
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const results = new Array<T>(tasks.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      try {
+        results[index] = await tasks[index]();
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, tasks.length) }, worker);
+  await Promise.all(workers);
+  return results;
+}
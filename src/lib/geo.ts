@@ -0,0 +1,184 @@
+// Geographic bounding boxes and center/extent conversions
+
+/** `west > east` means the box crosses the antimeridian (±180°) */
+export interface BBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface AreaExtent {
+  centerLat: number;
+  centerLon: number;
+  areaWidthKm: number;
+  areaHeightKm: number;
+}
+
+export const KM_PER_DEG_LAT = 111.32;
+
+export function kmPerDegLon(lat: number): number {
+  return KM_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180);
+}
+
+/** Wrap a longitude into -180…180; values already in range are kept as-is */
+export function normalizeLon(lon: number): number {
+  if (lon >= -180 && lon <= 180) return lon;
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+export function crossesAntimeridian(bbox: BBox): boolean {
+  return bbox.west > bbox.east;
+}
+
+/** East-west span in degrees, measured eastwards from `west` across the seam if needed */
+export function lonSpan(bbox: BBox): number {
+  return crossesAntimeridian(bbox) ? bbox.east + 360 - bbox.west : bbox.east - bbox.west;
+}
+
+/**
+ * Degrees east of `bbox.west`, unwrapped so points inside the box fall in
+ * 0…span and points outside land on whichever side of the box is closer.
+ */
+export function lonOffset(lon: number, bbox: BBox): number {
+  const span = lonSpan(bbox);
+  const d = ((((lon - bbox.west) % 360) + 360) % 360);
+  return d > span + (360 - span) / 2 ? d - 360 : d;
+}
+
+/**
+ * Bounds of [lon, lat] points. Longitudes are also measured in 0…360 and the
+ * narrower of the two spans wins, so points straddling ±180° yield a box
+ * across the antimeridian rather than one around the whole globe.
+ */
+export function lonLatBounds(points: Iterable<[number, number]>): BBox {
+  let south = Infinity;
+  let north = -Infinity;
+  let west = Infinity;
+  let east = -Infinity;
+  let west360 = Infinity;
+  let east360 = -Infinity;
+  for (const [lon, lat] of points) {
+    const lon180 = normalizeLon(lon);
+    const lon360 = lon180 < 0 ? lon180 + 360 : lon180;
+    west = Math.min(west, lon180);
+    east = Math.max(east, lon180);
+    west360 = Math.min(west360, lon360);
+    east360 = Math.max(east360, lon360);
+    south = Math.min(south, lat);
+    north = Math.max(north, lat);
+  }
+  if (east360 - west360 < east - west) {
+    const wrap = (lon: number) => (lon > 180 ? lon - 360 : lon);
+    return { west: wrap(west360), south, east: wrap(east360), north };
+  }
+  return { west, south, east, north };
+}
+
+export function areaToBbox({ centerLat, centerLon, areaWidthKm, areaHeightKm }: AreaExtent): BBox {
+  const halfSpanLat = areaHeightKm / 2 / KM_PER_DEG_LAT;
+  const halfSpanLon = areaWidthKm / 2 / kmPerDegLon(centerLat);
+  return {
+    west: normalizeLon(centerLon - halfSpanLon),
+    east: normalizeLon(centerLon + halfSpanLon),
+    south: centerLat - halfSpanLat,
+    north: centerLat + halfSpanLat,
+  };
+}
+
+/** Inverse of areaToBbox: extents are measured at the center latitude */
+export function bboxToArea(bbox: BBox): AreaExtent {
+  const centerLat = (bbox.north + bbox.south) / 2;
+  const span = lonSpan(bbox);
+  return {
+    centerLat,
+    centerLon: normalizeLon(bbox.west + span / 2),
+    areaWidthKm: span * kmPerDegLon(centerLat),
+    areaHeightKm: (bbox.north - bbox.south) * KM_PER_DEG_LAT,
+  };
+}
+
+/** Set `bbox` and sync the (rounded) center and extents derived from it */
+export function applyBbox<T extends AreaExtent & { bbox: BBox }>(target: T, bbox: BBox): T {
+  const area = bboxToArea(bbox);
+  return {
+    ...target,
+    bbox,
+    centerLat: Number(area.centerLat.toFixed(6)),
+    centerLon: Number(area.centerLon.toFixed(6)),
+    areaWidthKm: Number(area.areaWidthKm.toFixed(2)),
+    areaHeightKm: Number(area.areaHeightKm.toFixed(2)),
+  };
+}
+
+export function validateBbox(bbox: BBox): string | null {
+  const { west, south, east, north } = bbox;
+  if (![west, south, east, north].every(Number.isFinite)) return "Coordinates must be numbers";
+  if (south < -90 || north > 90) return "Latitudes must be within -90…90";
+  if ([west, east].some((lon) => lon < -180 || lon > 180)) return "Longitudes must be within -180…180";
+  if (south >= north) return "South must be less than north";
+  if (west === east) return "West and east must differ";
+  return null;
+}
+
+/** `west,south,east,north` with 5 decimals (~1 m) */
+export function formatBbox(bbox: BBox): string {
+  return [bbox.west, bbox.south, bbox.east, bbox.north].map((v) => v.toFixed(5)).join(",");
+}
+
+const LABEL_ALIASES: Record<string, keyof BBox> = {
+  west: "west", w: "west", minlon: "west", minx: "west", left: "west", xmin: "west",
+  south: "south", s: "south", minlat: "south", miny: "south", bottom: "south", ymin: "south",
+  east: "east", e: "east", maxlon: "east", maxx: "east", right: "east", xmax: "east",
+  north: "north", n: "north", maxlat: "north", maxy: "north", top: "north", ymax: "north",
+};
+
+/** Wrap west/east into -180…180, e.g. `170,…,190,…` becomes an antimeridian-crossing box */
+export function normalizeBbox(bbox: BBox): BBox {
+  return { ...bbox, west: normalizeLon(bbox.west), east: normalizeLon(bbox.east) };
+}
+
+/**
+ * Parse a pasted bbox. Accepts plain `west,south,east,north` (comma, space or
+ * semicolon separated, optionally wrapped in [], () or BBOX(...)) and labeled
+ * forms such as `north=46.1 south=45.7 west=6.6 east=7.1` or a JSON object.
+ * Longitudes beyond ±180 are wrapped; west > east denotes a box across the
+ * antimeridian.
+ */
+export function parseBboxString(text: string): BBox {
+  const input = text.trim();
+  if (!input) throw new Error("Bounding box is empty");
+
+  const labeled = [...input.matchAll(/"?([a-z]+)"?\s*[:=]\s*(-?\d+(?:\.\d+)?(?:e[-+]?\d+)?)/gi)];
+  let bbox: Partial<BBox> = {};
+  if (labeled.length > 0) {
+    for (const [, label, value] of labeled) {
+      const key = LABEL_ALIASES[label.toLowerCase()];
+      if (!key) throw new Error(`Unknown bbox field "${label}"`);
+      bbox[key] = Number(value);
+    }
+    for (const key of ["west", "south", "east", "north"] as const) {
+      if (bbox[key] === undefined) throw new Error(`Bounding box is missing "${key}"`);
+    }
+  } else {
+    const values = input
+      .replace(/^bbox\s*/i, "")
+      .replace(/[[\](){}]/g, " ")
+      .split(/[\s,;]+/)
+      .filter((v) => v.length > 0)
+      .map(Number);
+    if (values.length !== 4) {
+      throw new Error(`Expected 4 numbers (west,south,east,north), got ${values.length}`);
+    }
+    if (values.some((v) => !Number.isFinite(v))) {
+      throw new Error("Bounding box contains a value that is not a number");
+    }
+    const [west, south, east, north] = values;
+    bbox = { west, south, east, north };
+  }
+
+  const normalized = normalizeBbox(bbox as BBox);
+  const error = validateBbox(normalized);
+  if (error) throw new Error(error);
+  return normalized;
+}
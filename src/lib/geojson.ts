@@ -0,0 +1,155 @@
+// GeoJSON Polygon/MultiPolygon outlines — parsing, grid projection and rasterization
+
+import { lonLatBounds, type BBox } from "./geo";
+import { localProjection, type GridGeoref } from "./projection";
+
+/** [lon, lat] */
+export type LonLat = [number, number];
+/** Outer ring first, then holes */
+export type PolygonRings = LonLat[][];
+
+export interface Outline {
+  name: string;
+  polygons: PolygonRings[];
+}
+
+type GeoJsonNode = {
+  type?: string;
+  coordinates?: unknown;
+  geometry?: GeoJsonNode | null;
+  geometries?: GeoJsonNode[];
+  features?: GeoJsonNode[];
+};
+
+function toRing(value: unknown, where: string): LonLat[] {
+  if (!Array.isArray(value) || value.length < 4) {
+    throw new Error(`${where}: ring needs at least 4 positions`);
+  }
+  return value.map((pos, i) => {
+    if (!Array.isArray(pos) || !Number.isFinite(pos[0]) || !Number.isFinite(pos[1])) {
+      throw new Error(`${where}: invalid position at index ${i}`);
+    }
+    return [pos[0], pos[1]] as LonLat;
+  });
+}
+
+function collectPolygons(node: GeoJsonNode, out: PolygonRings[], where: string) {
+  switch (node.type) {
+    case "FeatureCollection":
+      (node.features ?? []).forEach((f, i) => collectPolygons(f, out, `${where} feature ${i + 1}`));
+      break;
+    case "Feature":
+      if (node.geometry) collectPolygons(node.geometry, out, where);
+      break;
+    case "GeometryCollection":
+      (node.geometries ?? []).forEach((g, i) => collectPolygons(g, out, `${where} geometry ${i + 1}`));
+      break;
+    case "Polygon":
+      if (!Array.isArray(node.coordinates)) throw new Error(`${where}: Polygon has no coordinates`);
+      out.push(node.coordinates.map((ring, r) => toRing(ring, `${where} ring ${r + 1}`)));
+      break;
+    case "MultiPolygon":
+      if (!Array.isArray(node.coordinates)) throw new Error(`${where}: MultiPolygon has no coordinates`);
+      node.coordinates.forEach((poly, p) => {
+        if (!Array.isArray(poly)) throw new Error(`${where}: polygon ${p + 1} is not an array`);
+        out.push(poly.map((ring, r) => toRing(ring, `${where} polygon ${p + 1} ring ${r + 1}`)));
+      });
+      break;
+    default:
+      // Points and lines carry no area; ignore them
+      break;
+  }
+}
+
+export function parseGeoJsonOutline(content: string, name: string): Outline {
+  let root: GeoJsonNode;
+  try {
+    root = JSON.parse(content);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  const polygons: PolygonRings[] = [];
+  collectPolygons(root, polygons, name);
+  if (polygons.length === 0) {
+    throw new Error(`${name} contains no Polygon or MultiPolygon geometry`);
+  }
+  return { name, polygons };
+}
+
+/** Bounds of the outer rings; may cross the antimeridian (see lonLatBounds) */
+export function outlineBbox(outline: Outline): BBox {
+  return lonLatBounds(outline.polygons.flatMap((polygon) => polygon[0]));
+}
+
+/**
+ * Project outline rings onto a `width`×`height` grid placed by `grid`.
+ * Returned coordinates are in sample units: sample (i, j) sits at (i, j),
+ * x grows east and y grows south, like the heightmap rows.
+ */
+export function outlineToGrid(
+  outline: Outline,
+  grid: GridGeoref,
+  width: number,
+  height: number
+): Array<Array<[number, number]>> {
+  const proj = localProjection(grid.centerLat, grid.centerLon);
+  const toGrid = ([lon, lat]: LonLat): [number, number] => {
+    const [x, y] = proj.forward(lat, lon);
+    return [(x / grid.areaWidthKm + 0.5) * width - 0.5, (0.5 - y / grid.areaHeightKm) * height - 0.5];
+  };
+  const rings: Array<Array<[number, number]>> = [];
+  for (const polygon of outline.polygons) {
+    for (const ring of polygon) rings.push(ring.map(toGrid));
+  }
+  return rings;
+}
+
+/** Even-odd scanline fill of grid rings (see outlineToGrid); 1 = inside */
+export function rasterizeRings(
+  rings: Array<Array<[number, number]>>,
+  width: number,
+  height: number
+): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  const crossings: number[] = [];
+  for (let y = 0; y < height; y++) {
+    crossings.length = 0;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [x0, y0] = ring[j];
+        const [x1, y1] = ring[i];
+        if (y0 <= y === y1 <= y) continue;
+        crossings.push(x0 + ((y - y0) / (y1 - y0)) * (x1 - x0));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const from = Math.max(0, Math.ceil(crossings[k]));
+      const to = Math.min(width - 1, Math.floor(crossings[k + 1]));
+      for (let x = from; x <= to; x++) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Elevation range inside `mask`; cells outside are set to the inside minimum
+ * so they never drive the model height. Returns a new grid.
+ */
+export function applyOutlineMask(
+  elevation: Float32Array,
+  mask: Uint8Array
+): { elevation: Float32Array; elevMin: number; elevMax: number } {
+  let elevMin = Infinity;
+  let elevMax = -Infinity;
+  for (let i = 0; i < elevation.length; i++) {
+    if (!mask[i]) continue;
+    elevMin = Math.min(elevMin, elevation[i]);
+    elevMax = Math.max(elevMax, elevation[i]);
+  }
+  if (elevMin === Infinity) {
+    throw new Error("Outline does not overlap the downloaded terrain");
+  }
+  const masked = Float32Array.from(elevation, (v, i) => (mask[i] ? v : elevMin));
+  return { elevation: masked, elevMin, elevMax };
+}
@@ -0,0 +1,456 @@
+// Minimal GeoTIFF reader for single-band DEMs
+
+import { crsFromEpsg, type RasterCrs } from "./crs";
+import type { GeoRaster } from "./raster";
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  modelTransformation: 34264,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+} as const;
+
+const GEO_KEY = {
+  modelType: 1024,
+  rasterType: 1025,
+  geographicType: 2048,
+  projectedType: 3072,
+} as const;
+
+/** Largest raster decoded, 400 MB as Float32; bigger ones would take the tab down */
+const MAX_RASTER_CELLS = 100_000_000;
+
+/** Bytes per value of each TIFF field type */
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the value bytes (inline values point into the entry) */
+  offset: number;
+}
+
+type SampleKind = "int16" | "uint16" | "int32" | "float32" | "float64" | "uint8";
+
+function readEntryValues(view: DataView, le: boolean, entry: IfdEntry): number[] {
+  const values: number[] = [];
+  const size = TYPE_SIZES[entry.type];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.offset + i * size;
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(view.getUint8(at));
+        break;
+      case 6:
+        values.push(view.getInt8(at));
+        break;
+      case 3:
+        values.push(view.getUint16(at, le));
+        break;
+      case 8:
+        values.push(view.getInt16(at, le));
+        break;
+      case 4:
+        values.push(view.getUint32(at, le));
+        break;
+      case 9:
+        values.push(view.getInt32(at, le));
+        break;
+      case 5:
+        values.push(view.getUint32(at, le) / view.getUint32(at + 4, le));
+        break;
+      case 10:
+        values.push(view.getInt32(at, le) / view.getInt32(at + 4, le));
+        break;
+      case 11:
+        values.push(view.getFloat32(at, le));
+        break;
+      case 12:
+        values.push(view.getFloat64(at, le));
+        break;
+      default:
+        throw new Error(`Unsupported TIFF field type ${entry.type}`);
+    }
+  }
+  return values;
+}
+
+function readEntryString(view: DataView, entry: IfdEntry): string {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + entry.offset, entry.count);
+  return new TextDecoder().decode(bytes).replace(/\0+$/, "");
+}
+
+// ── Decompression ─────────────────────────────────────────────────
+
+/** TIFF LZW: MSB-first codes, 9–12 bits, code width grows one code early */
+function lzwDecode(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Int32Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+  let op = 0;
+  let bitPos = 0;
+  let codeLen = 9;
+  let next = 258;
+  let old = -1;
+  const totalBits = input.length * 8;
+
+  const emit = (code: number) => {
+    const len = length[code];
+    let c = code;
+    for (let k = len - 1; k >= 0; k--) {
+      if (op + k < expected) out[op + k] = suffix[c];
+      c = prefix[c];
+    }
+    op += len;
+  };
+  const add = (p: number, c: number) => {
+    if (next >= 4096) return;
+    prefix[next] = p;
+    suffix[next] = c;
+    first[next] = first[p];
+    length[next] = length[p] + 1;
+    next++;
+  };
+
+  while (op < expected && bitPos + codeLen <= totalBits) {
+    let code = 0;
+    for (let b = 0; b < codeLen; b++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    if (code === 257) break;
+    if (code === 256) {
+      codeLen = 9;
+      next = 258;
+      old = -1;
+      continue;
+    }
+    if (old === -1) {
+      emit(code);
+    } else if (code < next) {
+      emit(code);
+      add(old, first[code]);
+    } else {
+      add(old, first[old]);
+      emit(code);
+    }
+    old = code;
+    if (next >= (1 << codeLen) - 1 && codeLen < 12) codeLen++;
+  }
+  return out;
+}
+
+function packBitsDecode(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  let ip = 0;
+  let op = 0;
+  while (ip < input.length && op < expected) {
+    const n = (input[ip++] << 24) >> 24;
+    if (n >= 0) {
+      for (let k = 0; k <= n && op < expected; k++) out[op++] = input[ip++];
+    } else if (n !== -128) {
+      const value = input[ip++];
+      for (let k = 0; k < 1 - n && op < expected; k++) out[op++] = value;
+    }
+  }
+  return out;
+}
+
+/** zlib-wrapped deflate, via the browser's DecompressionStream */
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(
+  compression: number,
+  input: Uint8Array,
+  expected: number
+): Promise<Uint8Array> {
+  switch (compression) {
+    case 1:
+      return input;
+    case 5:
+      return lzwDecode(input, expected);
+    case 8:
+    case 32946:
+      return inflate(input);
+    case 32773:
+      return packBitsDecode(input, expected);
+    default:
+      throw new Error(
+        `Unsupported TIFF compression ${compression}; save the DEM uncompressed, LZW or deflate`
+      );
+  }
+}
+
+// ── Predictors ────────────────────────────────────────────────────
+
+/** Undo horizontal differencing (predictor 2) row by row, in place */
+function undoHorizontalPredictor(
+  bytes: Uint8Array,
+  width: number,
+  rows: number,
+  sampleBytes: number,
+  le: boolean
+) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let r = 0; r < rows; r++) {
+    const row = r * width * sampleBytes;
+    for (let i = 1; i < width; i++) {
+      const at = row + i * sampleBytes;
+      const prev = at - sampleBytes;
+      if (sampleBytes === 1) bytes[at] = (bytes[at] + bytes[prev]) & 0xff;
+      else if (sampleBytes === 2)
+        view.setUint16(at, (view.getUint16(at, le) + view.getUint16(prev, le)) & 0xffff, le);
+      else view.setUint32(at, (view.getUint32(at, le) + view.getUint32(prev, le)) >>> 0, le);
+    }
+  }
+}
+
+/**
+ * Undo the floating point predictor (3): bytes are differenced across the
+ * row, then stored as planes of most to least significant bytes.
+ * Returns big-endian samples.
+ */
+function undoFloatPredictor(bytes: Uint8Array, width: number, rows: number, sampleBytes: number) {
+  const rowBytes = width * sampleBytes;
+  const out = new Uint8Array(bytes.length);
+  for (let r = 0; r < rows; r++) {
+    const row = r * rowBytes;
+    for (let i = 1; i < rowBytes; i++) bytes[row + i] = (bytes[row + i] + bytes[row + i - 1]) & 0xff;
+    for (let i = 0; i < width; i++) {
+      for (let k = 0; k < sampleBytes; k++) {
+        out[row + i * sampleBytes + k] = bytes[row + k * width + i];
+      }
+    }
+  }
+  return out;
+}
+
+function readSample(view: DataView, at: number, kind: SampleKind, le: boolean): number {
+  switch (kind) {
+    case "uint8":
+      return view.getUint8(at);
+    case "int16":
+      return view.getInt16(at, le);
+    case "uint16":
+      return view.getUint16(at, le);
+    case "int32":
+      return view.getInt32(at, le);
+    case "float32":
+      return view.getFloat32(at, le);
+    case "float64":
+      return view.getFloat64(at, le);
+  }
+}
+
+function sampleKind(bits: number, format: number): SampleKind {
+  if (format === 3 && bits === 32) return "float32";
+  if (format === 3 && bits === 64) return "float64";
+  if (format === 2 && bits === 16) return "int16";
+  if (format === 2 && bits === 32) return "int32";
+  if (format === 1 && bits === 16) return "uint16";
+  if (format === 1 && bits === 8) return "uint8";
+  const formats: Record<number, string> = { 1: "unsigned", 2: "signed", 3: "float" };
+  throw new Error(
+    `Unsupported sample type: ${bits}-bit ${formats[format] ?? `format ${format}`}; expected 8/16-bit unsigned, 16/32-bit signed or 32/64-bit float`
+  );
+}
+
+// ── Georeference ──────────────────────────────────────────────────
+
+function parseGeoKeys(keys: number[]): Map<number, number> {
+  const result = new Map<number, number>();
+  const count = keys[3] ?? 0;
+  for (let i = 0; i < count; i++) {
+    const [id, location, , value] = keys.slice(4 + i * 4, 8 + i * 4);
+    // Only SHORT keys stored inline matter here
+    if (location === 0) result.set(id, value);
+  }
+  return result;
+}
+
+function rasterCrs(geoKeys: Map<number, number>, name: string): RasterCrs {
+  const modelType = geoKeys.get(GEO_KEY.modelType);
+  const code =
+    modelType === 2
+      ? (geoKeys.get(GEO_KEY.geographicType) ?? 4326)
+      : geoKeys.get(GEO_KEY.projectedType);
+  if (code === undefined) throw new Error(`${name} has no EPSG code in its GeoKeys`);
+  // 32767 = user-defined; geographic models are still plain lat/lon
+  const crs = crsFromEpsg(code) ?? (modelType === 2 ? { kind: "geographic" as const } : null);
+  if (!crs) {
+    throw new Error(
+      `${name} uses EPSG:${code}; reproject it to EPSG:4326, EPSG:3857 or a WGS84 UTM zone`
+    );
+  }
+  return crs;
+}
+
+/** GDAL-style affine from the model transformation or the tiepoint and pixel scale */
+function geoTransform(
+  transformation: number[] | null,
+  tiepoint: number[] | null,
+  scale: number[] | null,
+  pixelIsPoint: boolean,
+  name: string
+): GeoRaster["transform"] {
+  let t: GeoRaster["transform"];
+  if (transformation && transformation.length >= 8) {
+    const [a, b, , x0, d, e, , y0] = transformation;
+    t = [x0, a, b, y0, d, e];
+  } else if (tiepoint && tiepoint.length >= 6 && scale && scale.length >= 2) {
+    const [i, j, , x, y] = tiepoint;
+    t = [x - i * scale[0], scale[0], 0, y + j * scale[1], 0, -scale[1]];
+  } else {
+    throw new Error(`${name} has no georeference (ModelTiepoint/ModelPixelScale or ModelTransformation)`);
+  }
+  if (pixelIsPoint) {
+    // Tiepoints refer to pixel centers; shift the origin to the pixel corner
+    t[0] -= (t[1] + t[2]) / 2;
+    t[3] -= (t[4] + t[5]) / 2;
+  }
+  return t;
+}
+
+/**
+ * Read the first image of a GeoTIFF: a single band of 8/16/32-bit integers or
+ * 32/64-bit floats, stripped or tiled, uncompressed, LZW, deflate or PackBits
+ * with optional predictor. NoData (GDAL_NODATA) becomes NaN.
+ */
+export async function parseGeoTiff(buffer: ArrayBuffer, name: string): Promise<GeoRaster> {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 8) throw new Error(`${name} is not a TIFF file`);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error(`${name} is not a TIFF file`);
+  const le = order === 0x4949;
+  const magic = view.getUint16(2, le);
+  if (magic === 43) throw new Error(`${name} is a BigTIFF, which is not supported`);
+  if (magic !== 42) throw new Error(`${name} is not a TIFF file`);
+
+  // First IFD
+  const ifd = view.getUint32(4, le);
+  const entries = new Map<number, IfdEntry>();
+  const entryCount = view.getUint16(ifd, le);
+  for (let i = 0; i < entryCount; i++) {
+    const at = ifd + 2 + i * 12;
+    const tag = view.getUint16(at, le);
+    const type = view.getUint16(at + 2, le);
+    const count = view.getUint32(at + 4, le);
+    const size = (TYPE_SIZES[type] ?? 1) * count;
+    entries.set(tag, { type, count, offset: size <= 4 ? at + 8 : view.getUint32(at + 8, le) });
+  }
+  const values = (tag: number): number[] | null => {
+    const entry = entries.get(tag);
+    return entry ? readEntryValues(view, le, entry) : null;
+  };
+  const value = (tag: number, fallback?: number): number => {
+    const v = values(tag)?.[0] ?? fallback;
+    if (v === undefined) throw new Error(`${name} is missing TIFF tag ${tag}`);
+    return v;
+  };
+
+  const width = value(TAG.imageWidth);
+  const height = value(TAG.imageLength);
+  const samplesPerPixel = value(TAG.samplesPerPixel, 1);
+  if (samplesPerPixel !== 1) {
+    throw new Error(`${name} has ${samplesPerPixel} bands; only single-band DEMs are supported`);
+  }
+  const bits = value(TAG.bitsPerSample, 1);
+  const kind = sampleKind(bits, value(TAG.sampleFormat, 1));
+  const sampleBytes = bits / 8;
+  const compression = value(TAG.compression, 1);
+  const predictor = value(TAG.predictor, 1);
+
+  const noDataEntry = entries.get(TAG.gdalNoData);
+  const noDataValue = noDataEntry ? parseFloat(readEntryString(view, noDataEntry)) : NaN;
+  // GDAL writes NoData as decimal text; Float32 samples only match its rounded value
+  const noData = kind === "float32" ? Math.fround(noDataValue) : noDataValue;
+
+  // Strips are chunks spanning the full width
+  const tiled = entries.has(TAG.tileOffsets);
+  const chunkW = tiled ? value(TAG.tileWidth) : width;
+  const chunkH = tiled ? value(TAG.tileLength) : Math.min(height, value(TAG.rowsPerStrip, height));
+  const offsets = values(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const byteCounts = values(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  if (!offsets || !byteCounts) throw new Error(`${name} has no image data offsets`);
+  const chunksAcross = Math.ceil(width / chunkW);
+
+  if (width * height > MAX_RASTER_CELLS) {
+    throw new Error(`${name} is ${width}×${height} pixels; crop or downsample it first`);
+  }
+  const data = new Float32Array(width * height);
+  for (let c = 0; c < offsets.length; c++) {
+    const x0 = (c % chunksAcross) * chunkW;
+    const y0 = Math.floor(c / chunksAcross) * chunkH;
+    if (y0 >= height) break;
+    // The last strip may be short; tiles are always full size
+    const rows = tiled ? chunkH : Math.min(chunkH, height - y0);
+    const expected = chunkW * rows * sampleBytes;
+    if (offsets[c] + byteCounts[c] > buffer.byteLength) throw new Error(`${name} is truncated`);
+    const raw = new Uint8Array(buffer, offsets[c], byteCounts[c]);
+    let bytes = await decompress(compression, raw, expected);
+    if (bytes === raw || bytes.length < expected) {
+      const copy = new Uint8Array(expected);
+      copy.set(bytes.subarray(0, expected));
+      bytes = copy;
+    }
+
+    let chunkLe = le;
+    if (predictor === 2) undoHorizontalPredictor(bytes, chunkW, rows, sampleBytes, le);
+    else if (predictor === 3) {
+      bytes = undoFloatPredictor(bytes, chunkW, rows, sampleBytes);
+      chunkLe = false;
+    }
+
+    const chunk = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let y = 0; y < rows && y0 + y < height; y++) {
+      for (let x = 0; x < chunkW && x0 + x < width; x++) {
+        const v = readSample(chunk, (y * chunkW + x) * sampleBytes, kind, chunkLe);
+        data[(y0 + y) * width + x0 + x] = v === noData || !Number.isFinite(v) ? NaN : v;
+      }
+    }
+  }
+
+  const geoKeyValues = values(TAG.geoKeyDirectory);
+  if (!geoKeyValues) throw new Error(`${name} has no GeoKeys; is it a plain TIFF?`);
+  const geoKeys = parseGeoKeys(geoKeyValues);
+  const transform = geoTransform(
+    values(TAG.modelTransformation),
+    values(TAG.modelTiepoint),
+    values(TAG.modelPixelScale),
+    geoKeys.get(GEO_KEY.rasterType) === 2,
+    name
+  );
+
+  return { name, width, height, data, crs: rasterCrs(geoKeys, name), transform };
+}
@@ -0,0 +1,137 @@
+// Elevation window and height transfer curves
+
+export type HeightCurve = "linear" | "gamma" | "log" | "piecewise";
+
+export const HEIGHT_CURVE_LABELS: Record<HeightCurve, string> = {
+  linear: "Linear",
+  gamma: "Gamma",
+  log: "Logarithmic",
+  piecewise: "Custom (piecewise)",
+};
+
+/** Input positions of the piecewise curve's editable knots, between the fixed ends */
+export const CURVE_KNOT_X = [0.25, 0.5, 0.75] as const;
+export const LINEAR_KNOTS = [...CURVE_KNOT_X];
+
+/** The logarithmic curve is log(1 + k·t) / log(1 + k) */
+const LOG_CURVE_K = 9;
+
+export interface HeightCurveSettings {
+  /** Elevation window in meters; null follows the data */
+  clampMin: number | null;
+  clampMax: number | null;
+  heightCurve: HeightCurve;
+  /** Exponent of the "gamma" curve; below 1 lifts lowlands */
+  curveGamma: number;
+  /** Output (0–1) of the piecewise curve at CURVE_KNOT_X */
+  curveKnots: number[];
+}
+
+export interface ElevationHistogram {
+  /** Cell counts over `lo..hi` in equal bins */
+  bins: Uint32Array;
+  lo: number;
+  hi: number;
+}
+
+export function isHeightCurveActive(settings: HeightCurveSettings): boolean {
+  return settings.clampMin != null || settings.clampMax != null || settings.heightCurve !== "linear";
+}
+
+export function validateHeightWindow(settings: HeightCurveSettings): string | null {
+  const { clampMin, clampMax } = settings;
+  if (clampMin != null && clampMax != null && !(clampMax > clampMin)) {
+    return "The window top must be above its bottom";
+  }
+  return null;
+}
+
+/** Window over data ranging `min..max`; null when it is empty */
+export function heightWindow(
+  settings: HeightCurveSettings,
+  min: number,
+  max: number
+): [number, number] | null {
+  const lo = settings.clampMin ?? min;
+  const hi = settings.clampMax ?? max;
+  return hi > lo ? [lo, hi] : null;
+}
+
+/** Curve output for `t` in 0–1 */
+export function curveValue(settings: HeightCurveSettings, t: number): number {
+  switch (settings.heightCurve) {
+    case "linear":
+      return t;
+    case "gamma":
+      return Math.pow(t, settings.curveGamma);
+    case "log":
+      return Math.log1p(LOG_CURVE_K * t) / Math.log1p(LOG_CURVE_K);
+    case "piecewise": {
+      const xs = [0, ...CURVE_KNOT_X, 1];
+      const ys = [0, ...settings.curveKnots, 1];
+      let i = 1;
+      while (i < xs.length - 1 && t > xs[i]) i++;
+      const f = (t - xs[i - 1]) / (xs[i] - xs[i - 1]);
+      return ys[i - 1] + (ys[i] - ys[i - 1]) * f;
+    }
+  }
+}
+
+export function describeHeightCurve(settings: HeightCurveSettings): string | undefined {
+  if (!isHeightCurveActive(settings)) return undefined;
+  const parts: string[] = [];
+  const { clampMin, clampMax } = settings;
+  if (clampMin != null || clampMax != null) {
+    parts.push(`window ${clampMin ?? "min"} – ${clampMax ?? "max"} m`);
+  }
+  switch (settings.heightCurve) {
+    case "gamma":
+      parts.push(`gamma ${settings.curveGamma}`);
+      break;
+    case "log":
+      parts.push("logarithmic");
+      break;
+    case "piecewise":
+      parts.push(
+        `piecewise ${CURVE_KNOT_X.map((x, i) => `${x}→${settings.curveKnots[i].toFixed(2)}`).join(", ")}`
+      );
+      break;
+  }
+  return parts.join(", ");
+}
+
+export function elevationHistogram(
+  elevation: Float32Array,
+  lo: number,
+  hi: number,
+  binCount = 64
+): ElevationHistogram {
+  const bins = new Uint32Array(binCount);
+  const scale = binCount / (hi - lo);
+  for (let i = 0; i < elevation.length; i++) {
+    const v = elevation[i];
+    if (!(v >= lo && v <= hi)) continue;
+    bins[Math.min(binCount - 1, Math.floor((v - lo) * scale))]++;
+  }
+  return { bins, lo, hi };
+}
+
+/**
+ * Clip to the window and reshape heights within it. Results stay in meters
+ * over the window, so the model's Z exaggeration still applies to its full
+ * height.
+ */
+export function applyHeightCurve(
+  elevation: Float32Array,
+  lo: number,
+  hi: number,
+  settings: HeightCurveSettings
+): Float32Array {
+  const span = hi - lo;
+  const out = new Float32Array(elevation.length);
+  for (let i = 0; i < elevation.length; i++) {
+    const t = Math.min(1, Math.max(0, (elevation[i] - lo) / span));
+    out[i] = lo + curveValue(settings, t) * span;
+  }
+  return out;
+}
@@ -0,0 +1,466 @@
+// Heightmaps loaded from files without a tile fetch
+
+import type { RasterCrs } from "./crs";
+import type { AreaExtent } from "./geo";
+import { parseGeoTiff } from "./geotiff";
+import { elevationToGrayscale } from "./heightmap";
+import type { GrayImage } from "./png";
+import { localAreaBbox } from "./projection";
+import type { GeoRaster } from "./raster";
+import { resampleGrid, type ResampleKernel } from "./resample";
+import { outputGridSize, type HeightmapResult } from "./terrain";
+
+/**
+ * What an ungeoreferenced heightmap represents: black → `elevMin`, white →
+ * `elevMax`, over `areaWidthKm`×`areaHeightKm` placed at the current center
+ */
+export interface ImageHeightmapParams {
+  elevMin: number;
+  elevMax: number;
+  areaWidthKm: number;
+  areaHeightKm: number;
+  centerLat: number;
+  centerLon: number;
+  /** Images with a longer side above this are downsampled */
+  outputPx: number;
+  resampleKernel: ResampleKernel;
+}
+
+/** Error message for an invalid elevation range or ground size */
+export function validateImageHeightmapParams(params: ImageHeightmapParams): string | null {
+  const { elevMin, elevMax, areaWidthKm, areaHeightKm } = params;
+  if (!Number.isFinite(elevMin) || !Number.isFinite(elevMax)) return "Enter the elevation range";
+  if (elevMax <= elevMin) return "Max elevation must be above min elevation";
+  if (!(areaWidthKm > 0) || !(areaHeightKm > 0)) return "Ground size must be positive";
+  return null;
+}
+
+/** Scale a grayscale image to meters and place it on the local grid */
+export function imageToHeightmap(image: GrayImage, params: ImageHeightmapParams): HeightmapResult {
+  const error = validateImageHeightmapParams(params);
+  if (error) throw new Error(error);
+
+  const { elevMin, elevMax, areaWidthKm, areaHeightKm, centerLat, centerLon } = params;
+  const maxSample = (1 << image.bitDepth) - 1;
+  const scale = (elevMax - elevMin) / maxSample;
+  let elevation: Float32Array = Float32Array.from(image.data, (v) => elevMin + v * scale);
+  let { width, height } = image;
+
+  if (Math.max(width, height) > params.outputPx) {
+    const size = outputGridSize(width, height, params.outputPx);
+    elevation = resampleGrid(
+      elevation,
+      width,
+      height,
+      { x: 0, y: 0, width, height },
+      size.width,
+      size.height,
+      params.resampleKernel
+    );
+    width = size.width;
+    height = size.height;
+  }
+
+  // Kernels with negative lobes can overshoot the range slightly
+  for (let i = 0; i < elevation.length; i++) {
+    elevation[i] = Math.max(elevMin, Math.min(elevMax, elevation[i]));
+  }
+  return placeHeightmap(elevation, width, height, {
+    centerLat,
+    centerLon,
+    areaWidthKm,
+    areaHeightKm,
+  });
+}
+
+/** Wrap a finished elevation grid as a heightmap centered on `area` */
+function placeHeightmap(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  area: AreaExtent
+): HeightmapResult {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i < elevation.length; i++) {
+    const v = elevation[i];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  return {
+    elevation,
+    heightmap: elevationToGrayscale(elevation, lo, hi),
+    width,
+    height,
+    elevMin: lo,
+    elevMax: hi,
+    areaWidthKm: area.areaWidthKm,
+    areaHeightKm: area.areaHeightKm,
+    bbox: localAreaBbox(area),
+    centerLat: area.centerLat,
+    centerLon: area.centerLon,
+  };
+}
+
+// ── heightmap.dat and its metadata sidecar ────────────────────────
+
+/** A heightmap.dat grid (see heightmapToDat): meters above its datum, top row first */
+export interface DatGrid {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+export function parseDatHeightmap(content: string, name: string): DatGrid {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  if (rows.length === 0) {
+    throw new Error(`${name} is empty`);
+  }
+
+  const firstRowValues = rows[0].split(/\s+/);
+  const width = firstRowValues.length;
+  const height = rows.length;
+  if (width === 0) {
+    throw new Error(`${name} has no columns`);
+  }
+
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const rowValues = rows[y].split(/\s+/);
+    if (rowValues.length !== width) {
+      throw new Error(`${name} row ${y + 1} has inconsistent column count`);
+    }
+
+    // .dat rows are bottom-up for OpenSCAD, convert back to top-down image rows.
+    const targetY = height - 1 - y;
+    for (let x = 0; x < width; x++) {
+      const parsed = Number(rowValues[x]);
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`${name} has invalid value at row ${y + 1}, col ${x + 1}`);
+      }
+      values[targetY * width + x] = parsed;
+    }
+  }
+  return { width, height, values };
+}
+
+const METADATA_FORMAT = "terrain-to-3d heightmap";
+
+/** Sidecar saved next to heightmap.dat so it can be reopened in place */
+export interface HeightmapMetadata extends AreaExtent {
+  format: typeof METADATA_FORMAT;
+  version: 1;
+  width: number;
+  height: number;
+  /** The .dat datum: its values are meters above this */
+  elevMin: number;
+  elevMax: number;
+  /** Elevation source description */
+  source: string;
+}
+
+export function heightmapMetadata(result: HeightmapResult, source: string): HeightmapMetadata {
+  return {
+    format: METADATA_FORMAT,
+    version: 1,
+    width: result.width,
+    height: result.height,
+    elevMin: result.elevMin,
+    elevMax: result.elevMax,
+    areaWidthKm: result.areaWidthKm,
+    areaHeightKm: result.areaHeightKm,
+    centerLat: result.centerLat,
+    centerLon: result.centerLon,
+    source,
+  };
+}
+
+export function parseHeightmapMetadata(content: string, name: string): HeightmapMetadata {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${name} is not valid JSON`);
+  }
+  if (data?.format !== METADATA_FORMAT) {
+    throw new Error(`${name} is not a heightmap metadata file`);
+  }
+  if (data.version !== 1) throw new Error(`${name} has unsupported version ${data.version}`);
+  const numbers = [
+    "width",
+    "height",
+    "elevMin",
+    "elevMax",
+    "areaWidthKm",
+    "areaHeightKm",
+    "centerLat",
+    "centerLon",
+  ] as const;
+  for (const key of numbers) {
+    if (typeof data[key] !== "number" || !Number.isFinite(data[key])) {
+      throw new Error(`${name} has an invalid ${key}`);
+    }
+  }
+  return { ...(data as unknown as HeightmapMetadata), source: String(data.source ?? "") };
+}
+
+/** Where a reopened .dat sits: its datum and ground extent */
+export interface DatPlacement extends AreaExtent {
+  datum: number;
+}
+
+export function datToHeightmap(grid: DatGrid, placement: DatPlacement): HeightmapResult {
+  if (!Number.isFinite(placement.datum)) throw new Error("Enter the base elevation");
+  if (!(placement.areaWidthKm > 0) || !(placement.areaHeightKm > 0)) {
+    throw new Error("Ground size must be positive");
+  }
+  const elevation = Float32Array.from(grid.values, (v) => v + placement.datum);
+  return placeHeightmap(elevation, grid.width, grid.height, placement);
+}
+
+/** The sidecar must describe the same grid as the .dat */
+export function checkDatMetadata(grid: DatGrid, metadata: HeightmapMetadata, name: string): void {
+  if (grid.width !== metadata.width || grid.height !== metadata.height) {
+    throw new Error(
+      `${name} describes a ${metadata.width}×${metadata.height} grid, but the .dat is ${grid.width}×${grid.height}`
+    );
+  }
+}
+
+/** Largest grid a text DEM may expand to */
+const MAX_TEXT_GRID_CELLS = 50_000_000;
+
+/** Text formats carry no CRS; coordinates outside lat/lon range mean the given one is wrong */
+function checkGeographicExtent(raster: GeoRaster): GeoRaster {
+  if (raster.crs.kind !== "geographic") return raster;
+  const [x0, a, , y0, , e] = raster.transform;
+  const x1 = x0 + a * raster.width;
+  const y1 = y0 + e * raster.height;
+  if (Math.min(x0, x1) < -180 || Math.max(x0, x1) > 360 || Math.min(y0, y1) < -90 || Math.max(y0, y1) > 90) {
+    throw new Error(
+      `${raster.name} coordinates are not lat/lon; set the EPSG code of its projection`
+    );
+  }
+  return raster;
+}
+
+/**
+ * ESRI ASCII grid: a header (ncols, nrows, xllcorner/xllcenter,
+ * yllcorner/yllcenter, cellsize or dx/dy, optional NODATA_value) followed by
+ * nrows rows of ncols values, top row first.
+ */
+export function parseAsciiGrid(content: string, name: string, crs: RasterCrs): GeoRaster {
+  const lines = content.split(/\r?\n/);
+  const header = new Map<string, number>();
+  let lineIndex = 0;
+  for (; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].trim();
+    if (line.length === 0) continue;
+    const match = /^([a-z_]+)\s+(\S+)$/i.exec(line);
+    if (!match) break;
+    const value = Number(match[2]);
+    if (!Number.isFinite(value)) {
+      throw new Error(`${name} header line ${lineIndex + 1} has invalid value "${match[2]}"`);
+    }
+    header.set(match[1].toLowerCase(), value);
+  }
+
+  const ncols = header.get("ncols");
+  const nrows = header.get("nrows");
+  if (ncols === undefined || nrows === undefined) {
+    throw new Error(`${name} is missing ncols/nrows; is it an ESRI ASCII grid?`);
+  }
+  if (!Number.isInteger(ncols) || !Number.isInteger(nrows) || ncols < 2 || nrows < 2) {
+    throw new Error(`${name} has invalid size ${ncols}×${nrows}`);
+  }
+  const dx = header.get("cellsize") ?? header.get("dx");
+  const dy = header.get("cellsize") ?? header.get("dy");
+  if (dx === undefined || dy === undefined || dx <= 0 || dy <= 0) {
+    throw new Error(`${name} is missing a positive cellsize`);
+  }
+  const centered = header.has("xllcenter");
+  const xll = header.get("xllcorner") ?? header.get("xllcenter");
+  const yll = header.get("yllcorner") ?? header.get("yllcenter");
+  if (xll === undefined || yll === undefined) {
+    throw new Error(`${name} is missing xllcorner/yllcorner`);
+  }
+  const noData = header.get("nodata_value");
+
+  const rows = lines
+    .slice(lineIndex)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  // Most writers put one grid row per line; otherwise values run on across lines
+  const tokens = rows.length === nrows ? null : rows.join(" ").split(/\s+/);
+  if (tokens && tokens.length !== ncols * nrows) {
+    throw new Error(`${name} has ${tokens.length} values, expected ${ncols}×${nrows}`);
+  }
+
+  const data = new Float32Array(ncols * nrows);
+  for (let y = 0; y < nrows; y++) {
+    const values: string[] = tokens ? tokens.slice(y * ncols, (y + 1) * ncols) : rows[y].split(/\s+/);
+    if (values.length !== ncols) {
+      throw new Error(`${name} row ${y + 1} has ${values.length} values, expected ${ncols}`);
+    }
+    for (let x = 0; x < ncols; x++) {
+      const parsed = Number(values[x]);
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`${name} has invalid value at row ${y + 1}, col ${x + 1}`);
+      }
+      data[y * ncols + x] = parsed === noData ? NaN : parsed;
+    }
+  }
+
+  const x0 = centered ? xll - dx / 2 : xll;
+  const yBottom = centered ? yll - dy / 2 : yll;
+  return checkGeographicExtent({
+    name,
+    width: ncols,
+    height: nrows,
+    data,
+    crs,
+    transform: [x0, dx, 0, yBottom + nrows * dy, 0, -dy],
+  });
+}
+
+/**
+ * Sorted distinct values, where values within a tenth of the median spacing
+ * count as one: exported coordinates carry float noise (0.30000000000000004
+ * next to 0.3) that would otherwise read as tiny lattice steps.
+ */
+function distinct(values: Float64Array): Float64Array {
+  const sorted = Float64Array.from(values).sort();
+  // Steps far below any real spacing are noise and left out of the median
+  const floor = (sorted[sorted.length - 1] - sorted[0]) * 1e-6;
+  const steps: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const step = sorted[i] - sorted[i - 1];
+    if (step > floor) steps.push(step);
+  }
+  steps.sort((a, b) => a - b);
+  const tolerance = steps.length > 0 ? steps[steps.length >> 1] / 10 : 0;
+
+  let n = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (i === 0 || sorted[i] - sorted[n - 1] > tolerance) sorted[n++] = sorted[i];
+  }
+  return sorted.subarray(0, n);
+}
+
+function smallestStep(values: Float64Array): number {
+  let step = Infinity;
+  for (let i = 1; i < values.length; i++) step = Math.min(step, values[i] - values[i - 1]);
+  return step;
+}
+
+/**
+ * XYZ point file: one "x y z" point per line, separated by spaces, tabs,
+ * commas or semicolons; a header line is skipped. Points on a regular
+ * lattice map one-to-one onto grid cells. Scattered points are averaged in
+ * cells holding about two points each; empty cells are NoData and follow
+ * the Missing data setting.
+ */
+export function parseXyz(content: string, name: string, crs: RasterCrs): GeoRaster {
+  const lines = content.split(/\r?\n/);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const zs: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.length === 0 || line.startsWith("#")) continue;
+    const values = line.split(/[\s,;]+/);
+    if (values.length < 3) {
+      throw new Error(`${name} line ${i + 1} has ${values.length} columns, expected x y z`);
+    }
+    const point = values.slice(0, 3).map(Number);
+    const bad = point.findIndex((v) => !Number.isFinite(v));
+    if (bad >= 0) {
+      // A header line names the columns
+      if (xs.length === 0 && i === lines.findIndex((l) => l.trim().length > 0)) continue;
+      throw new Error(`${name} has invalid value at line ${i + 1}, col ${bad + 1}`);
+    }
+    xs.push(point[0]);
+    ys.push(point[1]);
+    zs.push(point[2]);
+  }
+  if (xs.length < 4) throw new Error(`${name} has ${xs.length} points; at least 4 are needed`);
+
+  const px = Float64Array.from(xs);
+  const py = Float64Array.from(ys);
+  const ux = distinct(px);
+  const uy = distinct(py);
+  const west = ux[0];
+  const east = ux[ux.length - 1];
+  const south = uy[0];
+  const north = uy[uy.length - 1];
+  if (east === west || north === south) throw new Error(`${name} points all lie on one line`);
+
+  // A lattice has few distinct coordinates per axis compared to its point count
+  const lattice = ux.length * uy.length <= xs.length * 1.1;
+  let dx: number;
+  let dy: number;
+  if (lattice) {
+    dx = smallestStep(ux);
+    dy = smallestStep(uy);
+  } else {
+    dx = dy = Math.sqrt((2 * (east - west) * (north - south)) / xs.length);
+  }
+  const width = Math.round((east - west) / dx) + 1;
+  const height = Math.round((north - south) / dy) + 1;
+  if (width * height > MAX_TEXT_GRID_CELLS) {
+    throw new Error(
+      `${name} would grid to ${width}×${height} cells; thin the points or resample it first`
+    );
+  }
+
+  const sum = new Float64Array(width * height);
+  const count = new Uint32Array(width * height);
+  for (let i = 0; i < xs.length; i++) {
+    const col = Math.round((px[i] - west) / dx);
+    const row = Math.round((north - py[i]) / dy);
+    const cell = row * width + col;
+    sum[cell] += zs[i];
+    count[cell]++;
+  }
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) data[i] = count[i] > 0 ? sum[i] / count[i] : NaN;
+
+  // Points sit on cell centers
+  return checkGeographicExtent({
+    name,
+    width,
+    height,
+    data,
+    crs,
+    transform: [west - dx / 2, dx, 0, north + dy / 2, 0, -dy],
+  });
+}
+
+/**
+ * Read a DEM file by extension. `crs` applies to the text formats, which
+ * carry none; null means the user's choice is unsupported.
+ */
+export async function parseDemFile(file: File, crs: RasterCrs | null): Promise<GeoRaster> {
+  const extension = file.name.toLowerCase().split(".").pop();
+  const textCrs = () => {
+    if (!crs) throw new Error(`${file.name} needs a supported CRS; use EPSG 4326, 3857 or a UTM zone`);
+    return crs;
+  };
+  switch (extension) {
+    case "tif":
+    case "tiff":
+      return parseGeoTiff(await file.arrayBuffer(), file.name);
+    case "asc":
+      return parseAsciiGrid(await file.text(), file.name, textCrs());
+    case "xyz":
+    case "txt":
+    case "csv":
+      return parseXyz(await file.text(), file.name, textCrs());
+    default:
+      throw new Error(`${file.name}: expected a .tif, .asc or .xyz file`);
+  }
+}
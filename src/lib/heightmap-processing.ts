@@ -0,0 +1,97 @@
+// Adjustments applied to a finished heightmap before preview and meshing
+
+import { elevationToGrayscale } from "./heightmap";
+import {
+  applyHeightCurve,
+  elevationHistogram,
+  heightWindow,
+  isHeightCurveActive,
+  type ElevationHistogram,
+  type HeightCurveSettings,
+} from "./height-curve";
+import { applySmoothing, type SmoothingSettings } from "./smoothing";
+import type { HeightmapResult } from "./terrain";
+import { applyWater, type WaterSettings, type WaterStats } from "./water";
+
+export interface ProcessingSettings {
+  smoothing: SmoothingSettings;
+  water: WaterSettings;
+  curve: HeightCurveSettings;
+  /** Model Z exaggeration, for stages that set their own exaggeration */
+  zExag: number;
+}
+
+export interface ProcessedHeightmap extends HeightmapResult {
+  /** 1 = sea or lake surface */
+  waterMask?: Uint8Array;
+  water?: WaterStats;
+  /** Elevations entering the height curve, over its window or else the data range */
+  histogram?: ElevationHistogram;
+  /** The window and height curve were applied (an empty window skips them) */
+  curveApplied?: boolean;
+}
+
+function elevationRange(elevation: Float32Array): [number, number] {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i < elevation.length; i++) {
+    const v = elevation[i];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  return [lo, hi];
+}
+
+/**
+ * Run the processing stages over Step 1's heightmap. The input is left
+ * untouched; range and grayscale are recomputed from the processed grid.
+ */
+export function processHeightmap(
+  result: HeightmapResult,
+  settings: ProcessingSettings
+): ProcessedHeightmap {
+  const { width, height } = result;
+  const processed: ProcessedHeightmap = { ...result };
+  // Denoise first, so spikes don't end up as sea or lake levels
+  let elevation = applySmoothing(result.elevation, width, height, settings.smoothing);
+
+  if (settings.water.waterMode !== "off" || settings.water.flattenLakes) {
+    const { elevation: watered, waterMask, ...stats } = applyWater(
+      elevation,
+      width,
+      height,
+      settings.water,
+      settings.zExag
+    );
+    elevation = watered;
+    processed.waterMask = waterMask ?? undefined;
+    processed.water = stats;
+  }
+
+  // Last, so the window and curve act on the heights that get printed. The
+  // histogram is there even without a curve, for picking the window.
+  const [min, max] = elevationRange(elevation);
+  const curveWindow = heightWindow(settings.curve, min, max);
+  const histogramRange = curveWindow ?? (max > min ? [min, max] : null);
+  if (histogramRange) {
+    processed.histogram = elevationHistogram(elevation, histogramRange[0], histogramRange[1]);
+  }
+  let range: [number, number] | null = null;
+  if (curveWindow && isHeightCurveActive(settings.curve)) {
+    range = curveWindow;
+    elevation = applyHeightCurve(elevation, range[0], range[1], settings.curve);
+    processed.curveApplied = true;
+  }
+
+  if (elevation === result.elevation) return processed;
+
+  // A fixed window keeps its full range even where the data doesn't reach it
+  const [lo, hi] = range ?? elevationRange(elevation);
+  return {
+    ...processed,
+    elevation,
+    heightmap: elevationToGrayscale(elevation, lo, hi),
+    elevMin: lo,
+    elevMax: hi,
+  };
+}
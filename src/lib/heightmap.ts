@@ -1,3 +1,13 @@
+/** Normalize an elevation grid to grayscale 0–255 (lo → black, hi → white) for previews */
+export function elevationToGrayscale(elevation: Float32Array, lo: number, hi: number): Uint8Array {
+  const range = hi - lo || 1;
+  const u8 = new Uint8Array(elevation.length);
+  for (let i = 0; i < elevation.length; i++) {
+    u8[i] = Math.max(0, Math.min(255, Math.round(((elevation[i] - lo) / range) * 255)));
+  }
+  return u8;
+}
+
 /** Convert grayscale Uint8Array → PNG blob via OffscreenCanvas */
 export async function heightmapToPngBlob(
   heightmap: Uint8Array,
@@ -18,13 +28,7 @@ export async function heightmapToPngBlob(
   return canvas.convertToBlob({ type: "image/png" });
 }
 
-/** Convert grayscale Uint8Array → data URL for preview */
-export async function heightmapToDataUrl(
-  heightmap: Uint8Array,
-  width: number,
-  height: number
-): Promise<string> {
-  const blob = await heightmapToPngBlob(heightmap, width, height);
+function blobToDataUrl(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -32,3 +36,30 @@ export async function heightmapToDataUrl(
     reader.readAsDataURL(blob);
   });
 }
+
+/** Convert grayscale Uint8Array → data URL for preview */
+export async function heightmapToDataUrl(
+  heightmap: Uint8Array,
+  width: number,
+  height: number
+): Promise<string> {
+  return blobToDataUrl(await heightmapToPngBlob(heightmap, width, height));
+}
+
+/** Convert a 0/1 mask → PNG data URL, `rgba` where set and transparent elsewhere */
+export async function maskToOverlayDataUrl(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  rgba: [number, number, number, number]
+): Promise<string> {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext("2d")!;
+  const imgData = ctx.createImageData(width, height);
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    imgData.data.set(rgba, i * 4);
+  }
+  ctx.putImageData(imgData, 0, 0);
+  return blobToDataUrl(await canvas.convertToBlob({ type: "image/png" }));
+}
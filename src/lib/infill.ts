@@ -0,0 +1,220 @@
+// NoData infill for elevation grids — holes are NaN cells, filled in place
+
+export type InfillMethod = "idw" | "laplacian";
+
+export const INFILL_LABELS: Record<InfillMethod, string> = {
+  idw: "inverse distance",
+  laplacian: "Laplacian",
+};
+
+// 8 search directions (dx, dy) for the inverse-distance ray search
+const DIRECTIONS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+] as const;
+
+// Rays stop after this many cells; deeper into a void a coarser grid's fill,
+// smoothed by a few Laplacian sweeps, takes over, so large holes don't cost
+// 8 × max(width, height) steps per cell
+const MAX_RAY_CELLS = 32;
+const SEAM_SWEEPS = 50;
+
+/** Mask of cells that hold no usable elevation (1 = hole) */
+export function noDataMask(grid: Float32Array): Uint8Array {
+  const mask = new Uint8Array(grid.length);
+  for (let i = 0; i < grid.length; i++) {
+    if (!Number.isFinite(grid[i])) mask[i] = 1;
+  }
+  return mask;
+}
+
+/**
+ * Each hole takes the 1/d² weighted mean of the nearest valid cell found
+ * along 8 rays of up to MAX_RAY_CELLS, similar to GDAL FillNodata. Holes no
+ * ray reaches take the fill of a half-resolution grid; their indices are
+ * returned.
+ */
+function seedInverseDistance(
+  grid: Float32Array,
+  width: number,
+  height: number,
+  mask: Uint8Array
+): number[] {
+  const filled = new Float32Array(grid);
+  const unreached: number[] = [];
+  const reach = validCellDistance(mask, width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask[i]) continue;
+      if (reach[i] > MAX_RAY_CELLS) {
+        unreached.push(i);
+        continue;
+      }
+      let sum = 0;
+      let weightSum = 0;
+      for (const [dx, dy] of DIRECTIONS) {
+        for (let d = 1; d <= MAX_RAY_CELLS; d++) {
+          const sx = x + dx * d;
+          const sy = y + dy * d;
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) break;
+          const j = sy * width + sx;
+          if (mask[j]) continue;
+          const dist2 = (dx * dx + dy * dy) * d * d;
+          sum += grid[j] / dist2;
+          weightSum += 1 / dist2;
+          break;
+        }
+      }
+      if (weightSum > 0) filled[i] = sum / weightSum;
+      else unreached.push(i);
+    }
+  }
+  if (unreached.length > 0) seedFromCoarse(filled, width, height, unreached);
+  grid.set(filled);
+  return unreached;
+}
+
+/**
+ * Chessboard distance from each cell to the nearest valid one, capped past
+ * MAX_RAY_CELLS: a ray needs at least that many steps to find a sample.
+ */
+function validCellDistance(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const far = MAX_RAY_CELLS + 1;
+  const dist = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) dist[i] = mask[i] ? far : 0;
+  // Forward pass from the north-west neighbours, then back from the south-east ones
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (x > 0) d = Math.min(d, dist[i - 1] + 1);
+      if (y > 0) {
+        d = Math.min(d, dist[i - width] + 1);
+        if (x > 0) d = Math.min(d, dist[i - width - 1] + 1);
+        if (x < width - 1) d = Math.min(d, dist[i - width + 1] + 1);
+      }
+      dist[i] = Math.min(d, far);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (x < width - 1) d = Math.min(d, dist[i + 1] + 1);
+      if (y < height - 1) {
+        d = Math.min(d, dist[i + width] + 1);
+        if (x < width - 1) d = Math.min(d, dist[i + width + 1] + 1);
+        if (x > 0) d = Math.min(d, dist[i + width - 1] + 1);
+      }
+      dist[i] = Math.min(d, far);
+    }
+  }
+  return dist;
+}
+
+/**
+ * Set `cells` (NaN in `grid`) from a 2×2-averaged copy of the grid, filled
+ * the same way, so deep voids start close to their smooth solution.
+ */
+function seedFromCoarse(grid: Float32Array, width: number, height: number, cells: number[]) {
+  const cw = Math.ceil(width / 2);
+  const ch = Math.ceil(height / 2);
+  const coarse = new Float32Array(cw * ch);
+  const counts = new Uint8Array(cw * ch);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = grid[y * width + x];
+      if (Number.isNaN(v)) continue;
+      const c = (y >> 1) * cw + (x >> 1);
+      coarse[c] += v;
+      counts[c]++;
+    }
+  }
+  for (let c = 0; c < coarse.length; c++) coarse[c] = counts[c] ? coarse[c] / counts[c] : NaN;
+  fillNoData(coarse, cw, ch, "idw");
+  // Bilinear between coarse cell centers, which sit at fine x = 2·cx + 0.5
+  for (const i of cells) {
+    const x = i % width;
+    const y = (i - x) / width;
+    const fx = Math.min(cw - 1, Math.max(0, (x - 0.5) / 2));
+    const fy = Math.min(ch - 1, Math.max(0, (y - 0.5) / 2));
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const x1 = Math.min(cw - 1, x0 + 1);
+    const y1 = Math.min(ch - 1, y0 + 1);
+    const tx = fx - x0;
+    const ty = fy - y0;
+    const top = coarse[y0 * cw + x0] * (1 - tx) + coarse[y0 * cw + x1] * tx;
+    const bottom = coarse[y1 * cw + x0] * (1 - tx) + coarse[y1 * cw + x1] * tx;
+    grid[i] = top * (1 - ty) + bottom * ty;
+  }
+}
+
+/**
+ * Solve ∇²h = 0 over `cells` with all other cells as boundary conditions
+ * (successive over-relaxation from their current values).
+ */
+function relax(
+  grid: Float32Array,
+  width: number,
+  height: number,
+  cells: number[],
+  maxIterations = 500
+) {
+  const omega = 1.8;
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let maxDelta = 0;
+    for (const i of cells) {
+      const x = i % width;
+      const y = (i - x) / width;
+      let sum = 0;
+      let count = 0;
+      if (x > 0) { sum += grid[i - 1]; count++; }
+      if (x < width - 1) { sum += grid[i + 1]; count++; }
+      if (y > 0) { sum += grid[i - width]; count++; }
+      if (y < height - 1) { sum += grid[i + width]; count++; }
+      const delta = omega * (sum / count - grid[i]);
+      grid[i] += delta;
+      maxDelta = Math.max(maxDelta, Math.abs(delta));
+    }
+    if (maxDelta < 0.01) break;
+  }
+}
+
+/** Inverse distance near the hole edges, the smoothed coarse fill beyond the rays */
+function fillInverseDistance(grid: Float32Array, width: number, height: number, mask: Uint8Array) {
+  const unreached = seedInverseDistance(grid, width, height, mask);
+  if (unreached.length > 0) relax(grid, width, height, unreached, SEAM_SWEEPS);
+}
+
+/** Laplacian over all holes, seeded with the inverse-distance fill */
+function fillLaplacian(grid: Float32Array, width: number, height: number, mask: Uint8Array) {
+  seedInverseDistance(grid, width, height, mask);
+  const holes: number[] = [];
+  for (let i = 0; i < mask.length; i++) if (mask[i]) holes.push(i);
+  relax(grid, width, height, holes);
+}
+
+/**
+ * Fill NaN cells in place. Returns the mask of filled cells.
+ * Throws when the grid contains no valid elevation at all.
+ */
+export function fillNoData(
+  grid: Float32Array,
+  width: number,
+  height: number,
+  method: InfillMethod
+): { mask: Uint8Array; filledCount: number } {
+  const mask = noDataMask(grid);
+  let filledCount = 0;
+  for (let i = 0; i < mask.length; i++) filledCount += mask[i];
+  if (filledCount === 0) return { mask, filledCount };
+  if (filledCount === grid.length) {
+    throw new Error("No elevation data in the selected area");
+  }
+
+  if (method === "idw") fillInverseDistance(grid, width, height, mask);
+  else fillLaplacian(grid, width, height, mask);
+  return { mask, filledCount };
+}
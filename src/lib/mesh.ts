@@ -0,0 +1,147 @@
+// Direct heightmap-to-STL mesher, an alternative to compiling with OpenSCAD
+
+import {
+  BASE_OVERLAP_MM,
+  modelGeometry,
+  surfaceHeight,
+  type Footprint,
+  type ScadParams,
+} from "./scad-template";
+
+export type MeshBackend = "openscad" | "native";
+
+export const MESH_BACKEND_LABELS: Record<MeshBackend, string> = {
+  openscad: "OpenSCAD (WASM)",
+  native: "Native (fast)",
+};
+
+/** Why the native mesher can't build this model; null when it can */
+export function nativeMeshUnsupported(footprint: Footprint, hasOutline: boolean): string | null {
+  if (hasOutline) return "Outlines need OpenSCAD";
+  if (footprint !== "square") return "Non-rectangular footprints need OpenSCAD";
+  return null;
+}
+
+/** The backend that actually builds the model: native falls back to OpenSCAD */
+export function effectiveMeshBackend(
+  backend: MeshBackend,
+  footprint: Footprint,
+  hasOutline: boolean
+): MeshBackend {
+  return backend === "native" && !nativeMeshUnsupported(footprint, hasOutline)
+    ? "native"
+    : "openscad";
+}
+
+class StlWriter {
+  private view: DataView;
+  private offset = 84;
+
+  readonly bytes: Uint8Array;
+
+  constructor(triangleCount: number) {
+    this.bytes = new Uint8Array(84 + triangleCount * 50);
+    this.view = new DataView(this.bytes.buffer);
+    const header = new TextEncoder().encode("terrain-to-3d native mesh");
+    this.bytes.set(header);
+    this.view.setUint32(80, triangleCount, true);
+  }
+
+  /** Counter-clockwise seen from outside */
+  triangle(a: ArrayLike<number>, b: ArrayLike<number>, c: ArrayLike<number>) {
+    const ux = b[0] - a[0];
+    const uy = b[1] - a[1];
+    const uz = b[2] - a[2];
+    const vx = c[0] - a[0];
+    const vy = c[1] - a[1];
+    const vz = c[2] - a[2];
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    const len = Math.hypot(nx, ny, nz) || 1;
+    this.vector(nx / len, ny / len, nz / len);
+    this.vector(a[0], a[1], a[2]);
+    this.vector(b[0], b[1], b[2]);
+    this.vector(c[0], c[1], c[2]);
+    this.view.setUint16(this.offset, 0, true);
+    this.offset += 2;
+  }
+
+  private vector(x: number, y: number, z: number) {
+    this.view.setFloat32(this.offset, x, true);
+    this.view.setFloat32(this.offset + 4, y, true);
+    this.view.setFloat32(this.offset + 8, z, true);
+    this.offset += 12;
+  }
+}
+
+/**
+ * Watertight binary STL of the rectangular model generateScad() describes:
+ * the same footprint, sample positions and heights, with the terrain top
+ * unioned with the base slab (so nothing dips below BASE_OVERLAP_MM) and the
+ * bottom where surface() and the base put it.
+ */
+export function heightmapToStl(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  params: ScadParams
+): Uint8Array {
+  if (width < 2 || height < 2) throw new Error("Heightmap must be at least 2×2 samples");
+  const { xScale, yScale, zScale } = modelGeometry(params);
+  const datum = params.datum?.elevation ?? params.elevMin;
+
+  // surface(center = true) centers X/Y; sample (0, 0) is the north-west corner
+  const xs = Float64Array.from({ length: width }, (_, gx) => (gx - (width - 1) / 2) * xScale);
+  const ys = Float64Array.from({ length: height }, (_, gy) => ((height - 1) / 2 - gy) * yScale);
+  const top = new Float64Array(width * height);
+  let minHeight = Infinity;
+  for (let i = 0; i < top.length; i++) {
+    const h = surfaceHeight(elevation[i], datum);
+    minHeight = Math.min(minHeight, h);
+    top[i] = Math.max(h * zScale, BASE_OVERLAP_MM);
+  }
+  // surface() extends one unit below its lowest value (or to 0); the base reaches -base
+  const bottom = Math.min(-params.baseMm, Math.min(0, minHeight - 1) * zScale);
+
+  const perimeter = 2 * (width - 1) + 2 * (height - 1);
+  const stl = new StlWriter(2 * (width - 1) * (height - 1) + 2 * perimeter + perimeter);
+  const topAt = (gx: number, gy: number) => [xs[gx], ys[gy], top[gy * width + gx]];
+  const bottomAt = (gx: number, gy: number) => [xs[gx], ys[gy], bottom];
+
+  for (let gy = 0; gy < height - 1; gy++) {
+    for (let gx = 0; gx < width - 1; gx++) {
+      const nw = topAt(gx, gy);
+      const ne = topAt(gx + 1, gy);
+      const sw = topAt(gx, gy + 1);
+      const se = topAt(gx + 1, gy + 1);
+      stl.triangle(sw, se, ne);
+      stl.triangle(sw, ne, nw);
+    }
+  }
+
+  // Perimeter clockwise seen from above: north edge west→east, east edge
+  // north→south, south edge east→west, west edge south→north
+  const ring: Array<[number, number]> = [];
+  for (let gx = 0; gx < width - 1; gx++) ring.push([gx, 0]);
+  for (let gy = 0; gy < height - 1; gy++) ring.push([width - 1, gy]);
+  for (let gx = width - 1; gx > 0; gx--) ring.push([gx, height - 1]);
+  for (let gy = height - 1; gy > 0; gy--) ring.push([0, gy]);
+
+  const center = [0, 0, bottom];
+  for (let k = 0; k < ring.length; k++) {
+    const [ax, ay] = ring[k];
+    const [bx, by] = ring[(k + 1) % ring.length];
+    const topA = topAt(ax, ay);
+    const topB = topAt(bx, by);
+    const bottomA = bottomAt(ax, ay);
+    const bottomB = bottomAt(bx, by);
+    // Wall quad, facing out of the clockwise ring
+    stl.triangle(topA, topB, bottomB);
+    stl.triangle(topA, bottomB, bottomA);
+    // Bottom fan, facing down
+    stl.triangle(center, bottomA, bottomB);
+  }
+
+  return stl.bytes;
+}
@@ -0,0 +1,85 @@
+// Model size and vertical scale, as given or as cartographic ratios
+
+export type SizeMode = "size" | "ratio";
+export type VerticalMode = "exaggeration" | "mmPer1000m";
+
+export const SIZE_MODE_LABELS: Record<SizeMode, string> = {
+  size: "Model size (mm)",
+  ratio: "Map scale (1:N)",
+};
+
+export const VERTICAL_MODE_LABELS: Record<VerticalMode, string> = {
+  exaggeration: "Z exaggeration",
+  mmPer1000m: "mm per 1000 m",
+};
+
+export interface ModelScaleSettings {
+  sizeMode: SizeMode;
+  /** Longer side of the model, in "size" mode */
+  modelMm: number;
+  /** N of the 1:N map scale, in "ratio" mode */
+  scaleDenominator: number;
+  verticalMode: VerticalMode;
+  /** Vertical over horizontal scale, in "exaggeration" mode */
+  zExag: number;
+  /** Printed height of 1000 m of elevation, in "mmPer1000m" mode */
+  zMmPer1000m: number;
+}
+
+/** Both ways of stating the scale, whichever the settings fixed */
+export interface ModelScale {
+  modelMm: number;
+  scaleDenominator: number;
+  zExag: number;
+  zMmPer1000m: number;
+  /** N of the 1:N vertical scale */
+  verticalDenominator: number;
+}
+
+export function validateModelScale(settings: ModelScaleSettings): string | null {
+  if (settings.sizeMode === "ratio" && !(settings.scaleDenominator >= 1)) {
+    return "Map scale must be 1:1 or smaller";
+  }
+  if (settings.verticalMode === "mmPer1000m" && !(settings.zMmPer1000m > 0)) {
+    return "Vertical scale must be positive";
+  }
+  return null;
+}
+
+/** Resolve the settings for an area of `areaWidthKm` × `areaHeightKm` */
+export function resolveModelScale(
+  settings: ModelScaleSettings,
+  areaWidthKm: number,
+  areaHeightKm: number
+): ModelScale {
+  const longerKm = Math.max(areaWidthKm, areaHeightKm);
+  const modelMm =
+    settings.sizeMode === "ratio" ? (longerKm * 1e6) / settings.scaleDenominator : settings.modelMm;
+  const zExag =
+    settings.verticalMode === "mmPer1000m"
+      ? (settings.zMmPer1000m * longerKm) / modelMm
+      : settings.zExag;
+  return scaleRatios(modelMm, zExag, longerKm);
+}
+
+/** Ratios of a `modelMm` model (longer side) of an area whose longer side is `longerKm` */
+export function scaleRatios(modelMm: number, zExag: number, longerKm: number): ModelScale {
+  const mmPerKm = modelMm / longerKm;
+  return {
+    modelMm,
+    scaleDenominator: 1e6 / mmPerKm,
+    zExag,
+    zMmPer1000m: mmPerKm * zExag,
+    verticalDenominator: 1e6 / (mmPerKm * zExag),
+  };
+}
+
+/** "1:25 000", to three significant digits */
+export function formatScaleRatio(denominator: number): string {
+  const rounded = Math.round(Number(denominator.toPrecision(3)));
+  return `1:${String(rounded).replace(/\B(?=(\d{3})+(?!\d))/g, " ")}`;
+}
+
+export function describeModelScale(scale: ModelScale): string {
+  return `${formatScaleRatio(scale.scaleDenominator)} horizontal, ${scale.zMmPer1000m.toFixed(1)} mm per 1000 m vertical (${formatScaleRatio(scale.verticalDenominator)}, ${scale.zExag.toFixed(2)}×)`;
+}
@@ -1,4 +1,5 @@
 import { createOpenSCAD, type OpenSCADInstance } from "openscad-wasm";
+import { formatSize } from "./format";
 
 async function createInstance(onLog?: (msg: string) => void): Promise<OpenSCADInstance> {
   const inst = await createOpenSCAD({
@@ -14,12 +15,6 @@ async function createInstance(onLog?: (msg: string) => void): Promise<OpenSCADIn
   return inst;
 }
 
-function formatSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
 export async function compileScadToStl(
   scadCode: string,
   datContent: string,
@@ -0,0 +1,141 @@
+// PNG decoder for grayscale heightmaps; canvas decoding would drop 16-bit samples to 8 bits
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  bitDepth: 8 | 16;
+  /** Raw samples, row-major from the top row */
+  data: Uint16Array;
+}
+
+/** Channels per pixel for each PNG color type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decode a non-interlaced 8- or 16-bit PNG into gray samples. Gray and
+ * gray+alpha images are read directly; RGB(A) images are accepted when every
+ * pixel is gray (R = G = B), since many editors save grayscale that way.
+ * Alpha is ignored.
+ */
+export async function decodeGrayscalePng(buffer: ArrayBuffer, name: string): Promise<GrayImage> {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < 8 || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) {
+    throw new Error(`${name} is not a PNG file`);
+  }
+  const view = new DataView(buffer);
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+  for (let at = 8; at + 8 <= bytes.length; ) {
+    const length = view.getUint32(at);
+    const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+    const body = bytes.subarray(at + 8, at + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(at + 8);
+      height = view.getUint32(at + 12);
+      bitDepth = body[8];
+      colorType = body[9];
+      if (body[12] !== 0) throw new Error(`${name} is interlaced; save it without interlacing`);
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+    at += 12 + length;
+  }
+
+  if (width === 0 || height === 0) throw new Error(`${name} has no PNG header`);
+  if (colorType === 3) throw new Error(`${name} is a palette PNG; save it as grayscale`);
+  const channels = CHANNELS[colorType];
+  if (!channels) throw new Error(`${name} has unknown PNG color type ${colorType}`);
+  if (bitDepth !== 8 && bitDepth !== 16) {
+    throw new Error(`${name} is ${bitDepth}-bit; only 8- and 16-bit PNGs are supported`);
+  }
+  if (idat.length === 0) throw new Error(`${name} has no image data`);
+
+  const compressed = new Uint8Array(idat.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const raw = await inflate(compressed);
+
+  // Undo the per-row filters in place
+  const bpp = (channels * bitDepth) / 8;
+  const stride = width * bpp;
+  if (raw.length < height * (stride + 1)) throw new Error(`${name} is truncated`);
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    const prev = row - stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? pixels[row + i - bpp] : 0;
+      const up = y > 0 ? pixels[prev + i] : 0;
+      const upLeft = y > 0 && i >= bpp ? pixels[prev + i - bpp] : 0;
+      let v = src[i];
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          v += left;
+          break;
+        case 2:
+          v += up;
+          break;
+        case 3:
+          v += (left + up) >> 1;
+          break;
+        case 4:
+          v += paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`${name} has invalid PNG filter ${filter} on row ${y + 1}`);
+      }
+      pixels[row + i] = v & 0xff;
+    }
+  }
+
+  // Samples are big-endian; colour images must be gray to be a heightmap
+  const sampleBytes = bitDepth / 8;
+  const sample = (i: number) =>
+    sampleBytes === 2 ? (pixels[i] << 8) | pixels[i + 1] : pixels[i];
+  const data = new Uint16Array(width * height);
+  const isColor = colorType === 2 || colorType === 6;
+  for (let p = 0; p < data.length; p++) {
+    const at = p * bpp;
+    const v = sample(at);
+    if (isColor && (sample(at + sampleBytes) !== v || sample(at + 2 * sampleBytes) !== v)) {
+      const x = p % width;
+      const y = Math.floor(p / width);
+      throw new Error(
+        `${name} is a color image (pixel at row ${y + 1}, col ${x + 1} is not gray); heightmaps must be grayscale`
+      );
+    }
+    data[p] = v;
+  }
+  return { width, height, bitDepth, data };
+}
@@ -0,0 +1,136 @@
+// Local azimuthal equidistant projection for output grids and Web Mercator latitude limits
+
+import { KM_PER_DEG_LAT, normalizeLon, type AreaExtent, type BBox } from "./geo";
+
+/** Web Mercator tiles stop at ±85.0511° */
+export const MERCATOR_MAX_LAT = 85.0511287798;
+/** Beyond this latitude Mercator stretches the terrain more than ~3× */
+export const HIGH_LATITUDE = 70;
+
+/** Sphere radius matching KM_PER_DEG_LAT */
+const EARTH_RADIUS_KM = (KM_PER_DEG_LAT * 180) / Math.PI;
+const DEG = Math.PI / 180;
+
+/**
+ * Where a heightmap grid sits on the ground: a metric rectangle centered on
+ * (`centerLat`, `centerLon`) in the local projection below
+ */
+export interface GridGeoref extends AreaExtent {
+  /** Lat/lon bounds enclosing the rectangle */
+  bbox: BBox;
+}
+
+/** Error message when `bbox` leaves the Web Mercator tile range */
+export function checkMercatorLatitudes(bbox: BBox): string | null {
+  if (bbox.north > MERCATOR_MAX_LAT || bbox.south < -MERCATOR_MAX_LAT) {
+    return `Area reaches past ±${MERCATOR_MAX_LAT.toFixed(2)}° latitude, where Web Mercator tiles end`;
+  }
+  return null;
+}
+
+/**
+ * Warning above HIGH_LATITUDE: the local grid keeps the footprint to scale,
+ * but the stretched tiles carry less ground detail per pixel there.
+ */
+export function checkHighLatitude(bbox: BBox): string | null {
+  const maxLat = Math.max(Math.abs(bbox.north), Math.abs(bbox.south));
+  if (maxLat <= HIGH_LATITUDE || maxLat > MERCATOR_MAX_LAT) return null;
+  const stretch = 1 / Math.cos(maxLat * DEG);
+  return `Above ${HIGH_LATITUDE}° Web Mercator tiles are stretched up to ${stretch.toFixed(1)}×; the heightmap is reprojected to true scale, but polar elevation data is coarse`;
+}
+
+/**
+ * Azimuthal equidistant projection centered on (`centerLat`, `centerLon`):
+ * distances and bearings from the center are exact, and distortion stays
+ * small across a model-sized area at any latitude, poles included.
+ * Coordinates are km, x east and y north.
+ */
+export interface LocalProjection {
+  forward(lat: number, lon: number): [number, number];
+  /** [lat, lon], lon normalized to -180…180 */
+  inverse(x: number, y: number): [number, number];
+}
+
+export function localProjection(centerLat: number, centerLon: number): LocalProjection {
+  const sinLat0 = Math.sin(centerLat * DEG);
+  const cosLat0 = Math.cos(centerLat * DEG);
+
+  return {
+    forward(lat, lon) {
+      const sinLat = Math.sin(lat * DEG);
+      const cosLat = Math.cos(lat * DEG);
+      const dLon = (lon - centerLon) * DEG;
+      const cosC = Math.max(-1, Math.min(1, sinLat0 * sinLat + cosLat0 * cosLat * Math.cos(dLon)));
+      const c = Math.acos(cosC);
+      const k = c < 1e-12 ? 1 : c / Math.sin(c);
+      return [
+        EARTH_RADIUS_KM * k * cosLat * Math.sin(dLon),
+        EARTH_RADIUS_KM * k * (cosLat0 * sinLat - sinLat0 * cosLat * Math.cos(dLon)),
+      ];
+    },
+    inverse(x, y) {
+      const rho = Math.hypot(x, y);
+      if (rho < 1e-12) return [centerLat, centerLon];
+      const c = rho / EARTH_RADIUS_KM;
+      const sinC = Math.sin(c);
+      const cosC = Math.cos(c);
+      const lat = Math.asin(Math.max(-1, Math.min(1, cosC * sinLat0 + (y * sinC * cosLat0) / rho)));
+      const lon = centerLon + Math.atan2(x * sinC, rho * cosLat0 * cosC - y * sinLat0 * sinC) / DEG;
+      return [lat / DEG, normalizeLon(lon)];
+    },
+  };
+}
+
+/**
+ * Geographic bounds of the `areaWidthKm`×`areaHeightKm` rectangle centered on
+ * the area center in the local projection. Traces the rectangle edges; if a
+ * pole falls inside, the bounds reach that pole and span all longitudes.
+ */
+export function localAreaBbox(area: AreaExtent): BBox {
+  const proj = localProjection(area.centerLat, area.centerLon);
+  const halfW = area.areaWidthKm / 2;
+  const halfH = area.areaHeightKm / 2;
+  const inside = ([x, y]: [number, number]) => Math.abs(x) <= halfW && Math.abs(y) <= halfH;
+  const northPole = inside(proj.forward(90, 0));
+  const southPole = inside(proj.forward(-90, 0));
+
+  let south = Infinity;
+  let north = -Infinity;
+  let minOffset = Infinity;
+  let maxOffset = -Infinity;
+  const steps = 64;
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const edgePoints: Array<[number, number]> = [
+      [-halfW + 2 * halfW * t, halfH],
+      [-halfW + 2 * halfW * t, -halfH],
+      [-halfW, -halfH + 2 * halfH * t],
+      [halfW, -halfH + 2 * halfH * t],
+    ];
+    for (const [x, y] of edgePoints) {
+      const [lat, lon] = proj.inverse(x, y);
+      const offset = normalizeLon(lon - area.centerLon);
+      south = Math.min(south, lat);
+      north = Math.max(north, lat);
+      minOffset = Math.min(minOffset, offset);
+      maxOffset = Math.max(maxOffset, offset);
+    }
+  }
+  // Latitude extremes can fall between traced points; widen slightly
+  const latPad = (north - south) * 0.01;
+  if (northPole || southPole) {
+    return {
+      west: -180,
+      east: 180,
+      south: southPole ? -90 : south - latPad,
+      north: northPole ? 90 : north + latPad,
+    };
+  }
+  const lonPad = (maxOffset - minOffset) * 0.01;
+  return {
+    west: normalizeLon(area.centerLon + minOffset - lonPad),
+    east: normalizeLon(area.centerLon + maxOffset + lonPad),
+    south: Math.max(-90, south - latPad),
+    north: Math.min(90, north + latPad),
+  };
+}
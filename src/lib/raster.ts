@@ -0,0 +1,115 @@
+// Georeferenced elevation rasters loaded from files, and their conversion to heightmaps
+
+import { crsToLatLon, describeCrs, lonLatToCrs, type RasterCrs } from "./crs";
+import { bboxToArea, lonLatBounds, type BBox } from "./geo";
+import { localAreaBbox } from "./projection";
+import {
+  mapGridCells,
+  outputGridSize,
+  sampleHeightmap,
+  type HeightmapResult,
+  type TerrainParams,
+} from "./terrain";
+
+export interface GeoRaster {
+  name: string;
+  width: number;
+  height: number;
+  /** Elevation in meters, row-major from the top row; NaN = NoData */
+  data: Float32Array;
+  crs: RasterCrs;
+  /**
+   * GDAL-style affine [x0, a, b, y0, d, e] from pixel-edge (col, row) to CRS
+   * coordinates: x = x0 + a·col + b·row, y = y0 + d·col + e·row
+   */
+  transform: [number, number, number, number, number, number];
+}
+
+export type RasterHeightmapParams = Pick<
+  TerrainParams,
+  | "centerLat"
+  | "centerLon"
+  | "areaWidthKm"
+  | "areaHeightKm"
+  | "outputPx"
+  | "missingData"
+  | "resampleKernel"
+  | "bbox"
+>;
+
+/** Lat/lon bounds of the raster, traced along its edges */
+export function rasterBbox(raster: GeoRaster): BBox {
+  const { width, height, crs, transform: t } = raster;
+  const points: Array<[number, number]> = [];
+  const steps = 32;
+  for (let i = 0; i <= steps; i++) {
+    const u = (i / steps) * width;
+    const v = (i / steps) * height;
+    for (const [col, row] of [
+      [u, 0],
+      [u, height],
+      [0, v],
+      [width, v],
+    ]) {
+      const [lat, lon] = crsToLatLon(
+        crs,
+        t[0] + t[1] * col + t[2] * row,
+        t[3] + t[4] * col + t[5] * row
+      );
+      points.push([lon, lat]);
+    }
+  }
+  return lonLatBounds(points);
+}
+
+/** Approximate ground size of one raster cell in meters */
+export function rasterCellMeters(raster: GeoRaster): number {
+  const [, a, b, , d, e] = raster.transform;
+  const size = Math.sqrt(Math.abs(a * e - b * d));
+  if (raster.crs.kind !== "geographic") return size;
+  const bbox = rasterBbox(raster);
+  const lat = (bbox.south + bbox.north) / 2;
+  return size * 111320 * Math.sqrt(Math.cos((lat * Math.PI) / 180));
+}
+
+export function describeRaster(raster: GeoRaster): string {
+  return `${raster.width}×${raster.height}, ${describeCrs(raster.crs)}, ~${rasterCellMeters(raster).toFixed(1)} m cells`;
+}
+
+/**
+ * Resample an imported raster onto the same local output grid that
+ * generateHeightmap builds from tiles, so the result feeds Step 2 unchanged.
+ */
+export function rasterToHeightmap(
+  raster: GeoRaster,
+  params: RasterHeightmapParams,
+  onProgress?: (msg: string) => void
+): HeightmapResult {
+  const area = params.bbox ? bboxToArea(params.bbox) : params;
+  const grid = {
+    area,
+    bbox: localAreaBbox(area),
+    ...outputGridSize(area.areaWidthKm, area.areaHeightKm, params.outputPx),
+  };
+
+  const [x0, a, b, y0, d, e] = raster.transform;
+  const det = a * e - b * d;
+  if (det === 0) throw new Error(`${raster.name} has a degenerate geotransform`);
+  // For geographic rasters, keep longitudes on the raster's side of ±180°
+  const rasterWest = x0 + Math.min(0, a * raster.width, b * raster.height);
+
+  onProgress?.(`Source: ${raster.name} (${describeRaster(raster)})`);
+  const coords = mapGridCells(grid, (lat, lon) => {
+    const [cx, y] = lonLatToCrs(raster.crs, lat, lon);
+    const x = raster.crs.kind === "geographic" && cx < rasterWest ? cx + 360 : cx;
+    const dx = x - x0;
+    const dy = y - y0;
+    return [(e * dx - b * dy) / det, (a * dy - d * dx) / det];
+  });
+
+  return sampleHeightmap(raster.data, raster.width, raster.height, coords, grid, {
+    missingData: params.missingData,
+    resampleKernel: params.resampleKernel,
+    onProgress,
+  });
+}
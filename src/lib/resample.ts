@@ -0,0 +1,252 @@
+// Separable resampling kernels for Float32 elevation grids
+
+export type ResampleKernel = "nearest" | "bilinear" | "bicubic" | "lanczos" | "area";
+
+export const RESAMPLE_KERNEL_LABELS: Record<ResampleKernel, string> = {
+  nearest: "Nearest",
+  bilinear: "Bilinear",
+  bicubic: "Bicubic",
+  lanczos: "Lanczos-3",
+  area: "Area average",
+};
+
+/** Source window in pixel-edge coordinates: (0, 0) is the top-left corner of the first pixel */
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AxisWeights {
+  /** Per output sample: first source index and its weights (indices clamped at the edges) */
+  indices: Int32Array[];
+  weights: Float32Array[];
+}
+
+function cubic(t: number): number {
+  // Keys kernel, a = -0.5 (Catmull-Rom)
+  const a = -0.5;
+  const x = Math.abs(t);
+  if (x < 1) return (a + 2) * x * x * x - (a + 3) * x * x + 1;
+  if (x < 2) return a * x * x * x - 5 * a * x * x + 8 * a * x - 4 * a;
+  return 0;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function lanczos3(t: number): number {
+  return Math.abs(t) < 3 ? sinc(t) * sinc(t / 3) : 0;
+}
+
+interface Taps {
+  /** Source indices (clamped at the edges) and their normalized weights */
+  idx: number[];
+  w: number[];
+}
+
+/**
+ * Taps for one output sample whose source footprint spans `lo..lo + scale`
+ * in pixel-edge coordinates. Nearest, bilinear and bicubic are point
+ * samplers at the footprint center; Lanczos widens with the downsampling
+ * factor and area integrates the exact footprint.
+ */
+function kernelTaps(kernel: ResampleKernel, srcSize: number, lo: number, scale: number): Taps {
+  const hi = lo + scale;
+  // Sample position in pixel-center coordinates
+  const center = (lo + hi) / 2 - 0.5;
+  const clampIndex = (i: number) => Math.max(0, Math.min(srcSize - 1, i));
+  const idx: number[] = [];
+  const w: number[] = [];
+
+  switch (kernel) {
+    case "nearest":
+      idx.push(clampIndex(Math.round(center)));
+      w.push(1);
+      break;
+    case "bilinear": {
+      const i0 = Math.floor(center);
+      const t = center - i0;
+      idx.push(clampIndex(i0), clampIndex(i0 + 1));
+      w.push(1 - t, t);
+      break;
+    }
+    case "bicubic": {
+      const i0 = Math.floor(center);
+      for (let k = -1; k <= 2; k++) {
+        idx.push(clampIndex(i0 + k));
+        w.push(cubic(center - (i0 + k)));
+      }
+      break;
+    }
+    case "lanczos": {
+      const support = 3 * Math.max(1, scale);
+      const stretch = Math.max(1, scale);
+      for (let i = Math.floor(center - support) + 1; i <= Math.ceil(center + support) - 1; i++) {
+        const weight = lanczos3((center - i) / stretch);
+        if (weight === 0) continue;
+        idx.push(clampIndex(i));
+        w.push(weight);
+      }
+      break;
+    }
+    case "area": {
+      for (let i = Math.floor(lo); i < Math.ceil(hi); i++) {
+        const overlap = Math.min(hi, i + 1) - Math.max(lo, i);
+        if (overlap <= 0) continue;
+        idx.push(clampIndex(i));
+        w.push(overlap);
+      }
+      break;
+    }
+  }
+
+  const total = w.reduce((sum, v) => sum + v, 0) || 1;
+  for (let k = 0; k < w.length; k++) w[k] /= total;
+  return { idx, w };
+}
+
+/** Weights for one axis of a regular resample, see kernelTaps() */
+function axisWeights(
+  kernel: ResampleKernel,
+  srcSize: number,
+  start: number,
+  span: number,
+  outSize: number
+): AxisWeights {
+  const scale = span / outSize;
+  const indices: Int32Array[] = [];
+  const weights: Float32Array[] = [];
+  for (let o = 0; o < outSize; o++) {
+    const { idx, w } = kernelTaps(kernel, srcSize, start + o * scale, scale);
+    indices.push(Int32Array.from(idx));
+    weights.push(Float32Array.from(w));
+  }
+  return { indices, weights };
+}
+
+/**
+ * Resample the `rect` window of a `sw`×`sh` grid to `dw`×`dh`.
+ * The window may start and end at fractional pixel positions.
+ */
+export function resampleGrid(
+  src: Float32Array,
+  sw: number,
+  sh: number,
+  rect: SourceRect,
+  dw: number,
+  dh: number,
+  kernel: ResampleKernel
+): Float32Array {
+  const xw = axisWeights(kernel, sw, rect.x, rect.width, dw);
+  const yw = axisWeights(kernel, sh, rect.y, rect.height, dh);
+
+  // Only the source rows some output row refers to need the horizontal pass
+  let rowMin = sh;
+  let rowMax = -1;
+  for (const rows of yw.indices) {
+    for (const r of rows) {
+      rowMin = Math.min(rowMin, r);
+      rowMax = Math.max(rowMax, r);
+    }
+  }
+
+  // Horizontal pass: source rows rowMin..rowMax → dw columns
+  const tmp = new Float32Array((rowMax - rowMin + 1) * dw);
+  for (let r = rowMin; r <= rowMax; r++) {
+    const srcOff = r * sw;
+    const tmpOff = (r - rowMin) * dw;
+    for (let x = 0; x < dw; x++) {
+      const idx = xw.indices[x];
+      const w = xw.weights[x];
+      let sum = 0;
+      for (let k = 0; k < idx.length; k++) sum += src[srcOff + idx[k]] * w[k];
+      tmp[tmpOff + x] = sum;
+    }
+  }
+
+  // Vertical pass
+  const dst = new Float32Array(dw * dh);
+  for (let y = 0; y < dh; y++) {
+    const idx = yw.indices[y];
+    const w = yw.weights[y];
+    for (let x = 0; x < dw; x++) {
+      let sum = 0;
+      for (let k = 0; k < idx.length; k++) sum += tmp[(idx[k] - rowMin) * dw + x] * w[k];
+      dst[y * dw + x] = sum;
+    }
+  }
+  return dst;
+}
+
+/**
+ * Sample a `sw`×`sh` grid at arbitrary positions. `coords` holds an (x, y)
+ * pair per output cell in pixel-center coordinates (0 = center of the first
+ * source pixel), row-major over `dw`×`dh`.
+ *
+ * The spacing between neighbouring positions gives each output cell's source
+ * footprint along each axis; the kernel's taps for that footprint are then
+ * applied as in resampleGrid(), so Lanczos widens and area integrates where
+ * the output is coarser than the source.
+ */
+export function warpGrid(
+  src: Float32Array,
+  sw: number,
+  sh: number,
+  coords: Float64Array,
+  dw: number,
+  dh: number,
+  kernel: ResampleKernel
+): Float32Array {
+  const dst = new Float32Array(dw * dh);
+  const at = (x: number, y: number, axis: 0 | 1) => coords[(y * dw + x) * 2 + axis];
+  // Half the distance to the neighbours on either side (one-sided at the edges)
+  const derivative = (x: number, y: number, dx: number, dy: number, axis: 0 | 1) => {
+    const x0 = Math.max(0, x - dx);
+    const y0 = Math.max(0, y - dy);
+    const x1 = Math.min(dw - 1, x + dx);
+    const y1 = Math.min(dh - 1, y + dy);
+    const steps = Math.max(1, x1 - x0 + y1 - y0);
+    return (at(x1, y1, axis) - at(x0, y0, axis)) / steps;
+  };
+
+  for (let y = 0; y < dh; y++) {
+    for (let x = 0; x < dw; x++) {
+      const px = at(x, y, 0);
+      const py = at(x, y, 1);
+      // Footprint extents in source pixels (a single pixel for degenerate grids)
+      const ex =
+        Math.abs(derivative(x, y, 1, 0, 0)) + Math.abs(derivative(x, y, 0, 1, 0)) || 1;
+      const ey =
+        Math.abs(derivative(x, y, 1, 0, 1)) + Math.abs(derivative(x, y, 0, 1, 1)) || 1;
+      const tx = kernelTaps(kernel, sw, px + 0.5 - ex / 2, ex);
+      const ty = kernelTaps(kernel, sh, py + 0.5 - ey / 2, ey);
+      let value = 0;
+      for (let j = 0; j < ty.idx.length; j++) {
+        const row = ty.idx[j] * sw;
+        let sum = 0;
+        for (let i = 0; i < tx.idx.length; i++) sum += src[row + tx.idx[i]] * tx.w[i];
+        value += sum * ty.w[j];
+      }
+      dst[y * dw + x] = value;
+    }
+  }
+  return dst;
+}
+
+/** Nearest-neighbour warp of a 0/1 mask (see warpGrid) */
+export function warpMask(
+  mask: Uint8Array,
+  sw: number,
+  sh: number,
+  coords: Float64Array,
+  dw: number,
+  dh: number
+): Uint8Array {
+  const warped = warpGrid(Float32Array.from(mask), sw, sh, coords, dw, dh, "nearest");
+  return Uint8Array.from(warped, (v) => (v >= 0.5 ? 1 : 0));
+}
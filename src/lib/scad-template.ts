@@ -1,59 +1,276 @@
+import { describeModelScale, scaleRatios } from "./model-scale";
+
+export type Footprint = "square" | "circle" | "hexagon" | "rounded";
+
+export const FOOTPRINT_LABELS: Record<Footprint, string> = {
+  square: "Rectangle",
+  circle: "Circle",
+  hexagon: "Hexagon",
+  rounded: "Rounded rectangle",
+};
+
+export interface ScadOutline {
+  name: string;
+  /** Rings in heightmap sample coordinates, see outlineToGrid() */
+  rings: Array<Array<[number, number]>>;
+  /** Flat base-only border around the outline */
+  marginMm: number;
+}
+
 export interface ScadParams {
   centerLat: number;
   centerLon: number;
-  areaKm: number;
-  outputPx: number;
+  areaWidthKm: number;
+  areaHeightKm: number;
+  /** Heightmap grid dimensions in samples */
+  gridWidth: number;
+  gridHeight: number;
+  /** Size of the longer side of the model */
   modelMm: number;
   zExag: number;
   baseMm: number;
   elevMin: number;
   elevMax: number;
+  /** Elevation on top of the base, when not elevMin; see describeBaseReference() */
+  datum?: { elevation: number; label: string };
+  /** Elevation source description, see describeElevationSource() */
+  source: string;
+  /** Clip terrain (and base, grown by the margin) to this outline */
+  outline?: ScadOutline;
+  footprint: Footprint;
+  /** Corner radius of the "rounded" footprint */
+  cornerRadiusMm: number;
+  /** Water handling applied to the elevation, see describeWater() */
+  water?: string;
+  /** Smoothing filter applied to the elevation, see describeSmoothing() */
+  filter?: string;
+  /** Elevation window and height curve, see describeHeightCurve() */
+  curve?: string;
+}
+
+/** The base slab reaches this far above z = 0, into the terrain, to avoid a seam */
+export const BASE_OVERLAP_MM = 0.5;
+
+/** Model size and the scales applied to heightmap samples */
+export interface ModelGeometry {
+  longerKm: number;
+  modelW: number;
+  modelH: number;
+  /** Model mm per grid step */
+  xScale: number;
+  yScale: number;
+  /** Model mm per meter of elevation */
+  zScale: number;
+}
+
+export function modelGeometry(
+  params: Pick<
+    ScadParams,
+    "areaWidthKm" | "areaHeightKm" | "gridWidth" | "gridHeight" | "modelMm" | "zExag"
+  >
+): ModelGeometry {
+  const { areaWidthKm, areaHeightKm, gridWidth, gridHeight, modelMm, zExag } = params;
+  // modelMm applies to the longer side, the other side keeps the area aspect.
+  const longerKm = Math.max(areaWidthKm, areaHeightKm);
+  const modelW = (modelMm * areaWidthKm) / longerKm;
+  const modelH = (modelMm * areaHeightKm) / longerKm;
+  return {
+    longerKm,
+    modelW,
+    modelH,
+    // OpenSCAD surface() spans (pixels - 1) units in X/Y, not "pixels".
+    // Scale by grid span so the final terrain footprint matches the model size exactly.
+    xScale: modelW / Math.max(gridWidth - 1, 1),
+    yScale: modelH / Math.max(gridHeight - 1, 1),
+    // heightmap.dat holds meters above the datum, so z is model mm per meter of elevation
+    zScale: (modelMm / (longerKm * 1000)) * zExag,
+  };
+}
+
+/**
+ * 2D footprint shape inscribed in the W×H model rectangle. Circles and
+ * hexagons (flat top/bottom) take the largest size that fits.
+ */
+function footprintShape(footprint: Footprint, w: number, h: number, cornerRadiusMm: number): string {
+  switch (footprint) {
+    case "square":
+      return `square([${w.toFixed(4)}, ${h.toFixed(4)}], center = true);`;
+    case "circle":
+      return `circle(d = ${Math.min(w, h).toFixed(4)}, $fn = 180);`;
+    case "hexagon":
+      return `circle(r = ${Math.min(w / 2, h / Math.sqrt(3)).toFixed(4)}, $fn = 6);`;
+    case "rounded": {
+      const r = Math.max(0, Math.min(cornerRadiusMm, Math.min(w, h) / 2 - 0.01));
+      return `offset(r = ${r.toFixed(4)}, $fn = 48)
+  square([${(w - 2 * r).toFixed(4)}, ${(h - 2 * r).toFixed(4)}], center = true);`;
+    }
+  }
+}
+
+function formatOutlinePolygon(
+  outline: ScadOutline,
+  toModel: (gx: number, gy: number) => [number, number]
+): string {
+  const points: string[] = [];
+  const paths: string[] = [];
+  for (const ring of outline.rings) {
+    const path: number[] = [];
+    let last = "";
+    for (let i = 0; i < ring.length; i++) {
+      // GeoJSON rings repeat the first position at the end
+      if (i === ring.length - 1 && ring[i][0] === ring[0][0] && ring[i][1] === ring[0][1]) break;
+      const [mx, my] = toModel(ring[i][0], ring[i][1]);
+      const point = `[${mx.toFixed(3)}, ${my.toFixed(3)}]`;
+      if (point === last) continue;
+      last = point;
+      path.push(points.length);
+      points.push(point);
+    }
+    if (path.length >= 3) paths.push(`[${path.join(", ")}]`);
+  }
+  return `polygon(
+  points = [${points.join(", ")}],
+  paths = [${paths.join(", ")}]
+);`;
+}
+
+function indent(code: string, pad = "  "): string {
+  return code
+    .split("\n")
+    .map((line) => pad + line)
+    .join("\n");
 }
 
 export function generateScad(params: ScadParams): string {
-  const { centerLat, centerLon, areaKm, outputPx, modelMm, zExag, baseMm, elevMin, elevMax } =
-    params;
+  const {
+    centerLat,
+    centerLon,
+    areaWidthKm,
+    areaHeightKm,
+    gridWidth,
+    gridHeight,
+    modelMm,
+    zExag,
+    baseMm,
+    elevMin,
+    elevMax,
+    datum,
+    source,
+    outline,
+    footprint,
+    cornerRadiusMm,
+    water,
+    filter,
+    curve,
+  } = params;
+
+  const { longerKm, modelW, modelH, xScale, yScale, zScale } = modelGeometry(params);
+  const modelHeightMM = Math.max(0, elevMax - (datum?.elevation ?? elevMin)) * zScale;
 
-  // OpenSCAD surface() spans (pixels - 1) units in X/Y, not "pixels".
-  // Scale by grid span so the final terrain footprint matches modelMm exactly.
-  const gridSpan = Math.max(outputPx - 1, 1);
-  const xyScale = modelMm / gridSpan;
-  const modelHeightMM = ((elevMax - elevMin) / (areaKm * 1000)) * modelMm * zExag;
-  const zScale = modelHeightMM / 255;
+  const terrain = indent(
+    `scale([x, y, z])
+  surface(file = "heightmap.dat", center = true);`
+  );
+  const base = indent(
+    `translate([0, 0, -(base - ${BASE_OVERLAP_MM}) / 2])
+  cube([${modelW.toFixed(4)}, ${modelH.toFixed(4)}, base + ${BASE_OVERLAP_MM}], center = true);`
+  );
+
+  // surface(center = true) puts sample (0, 0) — the north-west corner — at (-w/2, +h/2)
+  const toModel = (gx: number, gy: number): [number, number] => [
+    (gx - (gridWidth - 1) / 2) * xScale,
+    ((gridHeight - 1) / 2 - gy) * yScale,
+  ];
+
+  const modules: string[] = [];
+  if (outline) {
+    modules.push(`module outline() {
+${indent(formatOutlinePolygon(outline, toModel))}
+}`);
+  }
+  if (footprint !== "square") {
+    const shape = footprintShape(footprint, modelW, modelH, cornerRadiusMm);
+    modules.push(
+      outline
+        ? `module footprint() {
+  intersection() {
+${indent(shape, "    ")}
+    outline();
+  }
+}`
+        : `module footprint() {
+${indent(shape)}
+}`
+    );
+  }
+
+  const clipShape = footprint !== "square" ? "footprint()" : outline ? "outline()" : null;
+  const baseShape = outline ? `offset(r = margin) ${clipShape}` : clipShape;
+
+  const body = clipShape
+    ? `union() {
+  // terrain surface, clipped to the footprint
+  intersection() {
+${indent(terrain)}
+    linear_extrude(height = 1e5, center = true) ${clipShape};
+  }
+
+  // base slab following the footprint${outline ? " plus a flat margin" : ""}. Slight Z overlap removes seam.
+  intersection() {
+${indent(base)}
+    linear_extrude(height = 1e5, center = true) ${baseShape};
+  }
+}`
+    : `union() {
+  // terrain surface
+${terrain}
+
+  // base slab, same XY footprint as terrain. Slight Z overlap removes seam.
+${base}
+}`;
 
   // Use .dat text format for WASM compatibility (surface() with PNG can be unreliable)
   return `// 3D terrain model
 // Center: ${centerLat}°N, ${centerLon}°E
-// Area:   ~${areaKm} km × ${areaKm} km
+// Area:   ~${areaWidthKm} km × ${areaHeightKm} km (E–W × N–S)
+// Source: ${source}
 // Elev:   ${elevMin.toFixed(0)} m – ${elevMax.toFixed(0)} m
-// Z exag: ${zExag}×
-// Model:  ${modelMm} mm × ${modelMm} mm, height ~${modelHeightMM.toFixed(1)} mm
-
-xy = ${xyScale.toFixed(6)};
+${datum ? `// Datum:  ${datum.label} on top of the base${datum.elevation > elevMin ? ", lower terrain flattened" : ""}\n` : ""}// Z exag: ${zExag}×
+// Model:  ${modelW.toFixed(1)} mm × ${modelH.toFixed(1)} mm, height ~${modelHeightMM.toFixed(1)} mm
+// Scale:  ${describeModelScale(scaleRatios(modelMm, zExag, longerKm))}
+${filter ? `// Filter: ${filter}\n` : ""}${water ? `// Water:  ${water}\n` : ""}${curve ? `// Curve:  ${curve}\n` : ""}${footprint !== "square" ? `// Shape:  ${FOOTPRINT_LABELS[footprint]}\n` : ""}${outline ? `// Outline: ${outline.name}, base margin ${outline.marginMm} mm\n` : ""}
+x  = ${xScale.toFixed(6)};
+y  = ${yScale.toFixed(6)};
 z  = ${zScale.toFixed(6)};
 base = ${baseMm};
-
-union() {
-  // terrain surface
-  scale([xy, xy, z])
-    surface(file = "heightmap.dat", center = true);
-
-  // base slab, same XY footprint as terrain. Slight Z overlap removes seam.
-  translate([0, 0, -(base - 0.5) / 2])
-    cube([${modelMm}, ${modelMm}, base + 0.5], center = true);
-}
+${outline ? `margin = ${outline.marginMm};\n` : ""}
+${modules.map((m) => `${m}\n\n`).join("")}${body}
 `;
 }
 
-/** Convert a grayscale Uint8Array heightmap to .dat text format for OpenSCAD surface() */
-export function heightmapToDat(heightmap: Uint8Array, width: number, height: number): string {
+/** heightmap.dat value: centimeter-rounded meters above the datum */
+export function surfaceHeight(elevation: number, datum: number): number {
+  // Terrain below the datum rests on the base
+  return Math.round(Math.max(0, elevation - datum) * 100) / 100;
+}
+
+/**
+ * Convert a Float32 elevation grid to .dat text format for OpenSCAD surface().
+ * Values are meters above `datum`, rounded to centimeters.
+ */
+export function heightmapToDat(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  datum: number
+): string {
   const lines: string[] = [];
   // OpenSCAD surface() .dat format: space-separated values, one row per line
   // Row 0 = bottom of model (y=0), so we flip vertically
   for (let y = height - 1; y >= 0; y--) {
     const row: number[] = [];
     for (let x = 0; x < width; x++) {
-      row.push(heightmap[y * width + x]);
+      row.push(surfaceHeight(elevation[y * width + x], datum));
     }
     lines.push(row.join(" "));
   }
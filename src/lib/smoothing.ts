@@ -0,0 +1,205 @@
+// Denoising filters for Float32 elevation grids (edges clamped)
+
+export type SmoothingFilter = "none" | "gaussian" | "median" | "bilateral" | "despike";
+
+export const SMOOTHING_FILTER_LABELS: Record<SmoothingFilter, string> = {
+  none: "None",
+  gaussian: "Gaussian blur",
+  median: "Median",
+  bilateral: "Bilateral (edge-preserving)",
+  despike: "Spike removal",
+};
+
+export interface SmoothingSettings {
+  smoothingFilter: SmoothingFilter;
+  /** Filter radius in heightmap cells */
+  smoothingRadius: number;
+}
+
+export const MAX_SMOOTHING_RADIUS = 8;
+
+/** Bilateral range sigma and spike threshold, in robust noise deviations */
+const BILATERAL_RANGE_SIGMAS = 3;
+const SPIKE_THRESHOLD_SIGMAS = 4;
+/** Floor for the noise estimate, so flat grids still get a usable threshold */
+const MIN_NOISE_M = 0.25;
+
+export function describeSmoothing(settings: SmoothingSettings): string | undefined {
+  if (settings.smoothingFilter === "none") return undefined;
+  return `${SMOOTHING_FILTER_LABELS[settings.smoothingFilter]}, radius ${settings.smoothingRadius} px`;
+}
+
+function gaussianWeights(radius: number): Float32Array {
+  // The kernel reaches ~2 sigma at the radius
+  const sigma = Math.max(radius / 2, 0.5);
+  const weights = new Float32Array(2 * radius + 1);
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    const w = Math.exp(-(k * k) / (2 * sigma * sigma));
+    weights[k + radius] = w;
+    sum += w;
+  }
+  for (let k = 0; k < weights.length; k++) weights[k] /= sum;
+  return weights;
+}
+
+function gaussianBlur(src: Float32Array, width: number, height: number, radius: number) {
+  const weights = gaussianWeights(radius);
+  const tmp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        acc += src[row + sx] * weights[k + radius];
+      }
+      tmp[row + x] = acc;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        acc += tmp[sy * width + x] * weights[k + radius];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+  return out;
+}
+
+/** k-th smallest of values[0..n) (Hoare selection, reorders the buffer) */
+function select(values: Float32Array, n: number, k: number): number {
+  let lo = 0;
+  let hi = n - 1;
+  while (lo < hi) {
+    const pivot = values[(lo + hi) >> 1];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        const t = values[i];
+        values[i] = values[j];
+        values[j] = t;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else break;
+  }
+  return values[k];
+}
+
+function medianFilter(src: Float32Array, width: number, height: number, radius: number) {
+  const out = new Float32Array(src.length);
+  const window = new Float32Array((2 * radius + 1) ** 2);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height - 1, y + radius);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width - 1, x + radius);
+      let n = 0;
+      for (let sy = y0; sy <= y1; sy++) {
+        for (let sx = x0; sx <= x1; sx++) window[n++] = src[sy * width + sx];
+      }
+      out[y * width + x] = select(window, n, n >> 1);
+    }
+  }
+  return out;
+}
+
+/**
+ * Robust standard deviation of `values` (1.4826 × median absolute value),
+ * floored at MIN_NOISE_M.
+ */
+function robustSigma(values: Float32Array): number {
+  if (values.length === 0) return MIN_NOISE_M;
+  const abs = values.map(Math.abs);
+  return Math.max(MIN_NOISE_M, 1.4826 * select(abs, abs.length, abs.length >> 1));
+}
+
+/** Noise level from horizontal neighbour differences, which cancel smooth slopes */
+function estimateNoise(src: Float32Array, width: number, height: number): number {
+  if (width < 3) return MIN_NOISE_M;
+  const diffs = new Float32Array(height * (width - 2));
+  let n = 0;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 1; x < width - 1; x++) {
+      // Second difference: zero on planes, 6σ² variance for white noise
+      diffs[n++] = (src[row + x - 1] - 2 * src[row + x] + src[row + x + 1]) / Math.sqrt(6);
+    }
+  }
+  return robustSigma(diffs);
+}
+
+function bilateralFilter(src: Float32Array, width: number, height: number, radius: number) {
+  const spatial = gaussianWeights(radius);
+  const rangeSigma = BILATERAL_RANGE_SIGMAS * estimateNoise(src, width, height);
+  const rangeScale = -1 / (2 * rangeSigma * rangeSigma);
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = src[y * width + x];
+      let acc = 0;
+      let sum = 0;
+      for (let ky = -radius; ky <= radius; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky));
+        const wy = spatial[ky + radius];
+        for (let kx = -radius; kx <= radius; kx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + kx));
+          const v = src[sy * width + sx];
+          const d = v - center;
+          const w = wy * spatial[kx + radius] * Math.exp(d * d * rangeScale);
+          acc += v * w;
+          sum += w;
+        }
+      }
+      out[y * width + x] = acc / sum;
+    }
+  }
+  return out;
+}
+
+/** Replace cells that stand out from their neighbourhood median; leave the rest alone */
+function removeSpikes(src: Float32Array, width: number, height: number, radius: number) {
+  const medians = medianFilter(src, width, height, radius);
+  const residuals = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) residuals[i] = src[i] - medians[i];
+  const threshold = SPIKE_THRESHOLD_SIGMAS * robustSigma(residuals);
+  const out = Float32Array.from(src);
+  for (let i = 0; i < src.length; i++) {
+    if (Math.abs(src[i] - medians[i]) > threshold) out[i] = medians[i];
+  }
+  return out;
+}
+
+/** Filtered copy of `elevation`; the input itself when the filter is "none" */
+export function applySmoothing(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  settings: SmoothingSettings
+): Float32Array {
+  const radius = Math.max(1, Math.min(MAX_SMOOTHING_RADIUS, Math.round(settings.smoothingRadius)));
+  switch (settings.smoothingFilter) {
+    case "none":
+      return elevation;
+    case "gaussian":
+      return gaussianBlur(elevation, width, height, radius);
+    case "median":
+      return medianFilter(elevation, width, height, radius);
+    case "bilateral":
+      return bilateralFilter(elevation, width, height, radius);
+    case "despike":
+      return removeSpikes(elevation, width, height, radius);
+  }
+}
@@ -1,183 +1,536 @@
 // Terrain tile fetch, decode, stitch, crop, normalize — browser port of generate.mjs
 
+import {
+  decodeTileResponse,
+  describeElevationSource,
+  tileUrl,
+  type DecodedTile,
+  type ElevationSource,
+} from "./elevation-source";
+import { getCachedTile, putCachedTile, tileCacheKey } from "./tile-cache";
+import { HttpStatusError, isAbortError, runPool, withRetry } from "./fetch-scheduler";
+import { fillNoData, INFILL_LABELS, type InfillMethod } from "./infill";
+import { elevationToGrayscale } from "./heightmap";
+import {
+  bboxToArea,
+  crossesAntimeridian,
+  lonOffset,
+  lonSpan,
+  type AreaExtent,
+  type BBox,
+} from "./geo";
+import { checkMercatorLatitudes, localAreaBbox, localProjection } from "./projection";
+import {
+  RESAMPLE_KERNEL_LABELS,
+  warpGrid,
+  warpMask,
+  type ResampleKernel,
+} from "./resample";
+
+/** "auto" picks the zoom from the area and output resolution (see planTiles) */
+export type ZoomSetting = number | "auto";
+
+/** "fail" aborts on the first failed tile or NoData cell; otherwise holes are interpolated */
+export type MissingDataMode = "fail" | InfillMethod;
+
 export interface TerrainParams {
   centerLat: number;
   centerLon: number;
-  areaKm: number;
+  /** East-west extent */
+  areaWidthKm: number;
+  /** North-south extent */
+  areaHeightKm: number;
+  /** Grid size along the longer side; the shorter side follows the area aspect */
   outputPx: number;
-  zoom: number;
+  zoom: ZoomSetting;
+  source: ElevationSource;
+  missingData: MissingDataMode;
+  resampleKernel: ResampleKernel;
+  /** Explicit bounds; when set, center and extents are derived from it */
+  bbox?: BBox;
+}
+
+export interface HeightmapOptions {
+  signal?: AbortSignal;
+  /** Called after each tile is loaded (from cache or network) */
+  onTileProgress?: (done: number, total: number) => void;
+  /** Max simultaneous tile requests */
+  concurrency?: number;
+  /** Retries per tile for network errors, 408/429 and 5xx responses */
+  retries?: number;
 }
 
 export interface HeightmapResult {
-  heightmap: Uint8Array; // grayscale 0–255, row-major
+  elevation: Float32Array; // meters, row-major
+  heightmap: Uint8Array; // grayscale 0–255 preview of `elevation`, row-major
   width: number;
   height: number;
   elevMin: number;
   elevMax: number;
+  /**
+   * Georeference (see GridGeoref): rows and columns are evenly spaced km on
+   * the local projection around the center; `bbox` encloses the rectangle
+   */
+  areaWidthKm: number;
+  areaHeightKm: number;
+  bbox: BBox;
+  centerLat: number;
+  centerLon: number;
+  /** 1 where elevation was interpolated because tiles failed or held NoData */
+  filledMask?: Uint8Array;
 }
 
 // ── Slippy-map tile math ──────────────────────────────────────────
 function lonToX(lon: number, n: number) {
   return Math.floor(((lon + 180) / 360) * n);
 }
-function latToY(lat: number, n: number) {
+/** Web Mercator y as a fraction of the world height, 0 at the north edge */
+function mercatorY(lat: number) {
   const r = (lat * Math.PI) / 180;
-  return Math.floor(
-    ((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * n
-  );
+  return (1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2;
+}
+function latToY(lat: number, n: number) {
+  return Math.floor(mercatorY(lat) * n);
 }
 function xToLon(x: number, n: number) {
   return (x / n) * 360 - 180;
 }
-function yToLat(y: number, n: number) {
-  const v = Math.PI - (2 * Math.PI * y) / n;
-  return (180 / Math.PI) * Math.atan(0.5 * (Math.exp(v) - Math.exp(-v)));
+
+// ── Tile planning ─────────────────────────────────────────────────
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+const AUTO_ZOOM_MIN = 1;
+const AUTO_ZOOM_MAX = 15;
+
+/** Ground size of a source pixel at `lat` (Mercator pixels are square on the ground) */
+export function tileMetersPerPixel(zoom: number, lat: number, tileSize: number): number {
+  return (EARTH_CIRCUMFERENCE_M * Math.cos((lat * Math.PI) / 180)) / (tileSize * 2 ** zoom);
+}
+
+/** Rough size of one tile as served: PNG-encoded tiles compress to ~1.3 bytes per pixel */
+function estimateTileBytes(source: ElevationSource): number {
+  const pixels = source.tileSize * source.tileSize;
+  switch (source.encoding) {
+    case "float32":
+      return pixels * 4;
+    case "int16":
+      return pixels * 2;
+    default:
+      return pixels * 1.3;
+  }
 }
 
-// ── Fetch + decode a single Terrarium tile ────────────────────────
+export type TilePlanParams = Pick<
+  TerrainParams,
+  "centerLat" | "centerLon" | "areaWidthKm" | "areaHeightKm" | "outputPx" | "zoom" | "source" | "bbox"
+>;
+
+export interface TilePlan {
+  area: AreaExtent;
+  /** Lat/lon bounds of the output rectangle */
+  bbox: BBox;
+  zoom: number;
+  /** Tile columns may run past 2^zoom - 1 across the antimeridian */
+  txMin: number;
+  txMax: number;
+  tyMin: number;
+  tyMax: number;
+  tileCount: number;
+  width: number;
+  height: number;
+  /** Source pixel size at the center latitude vs output grid spacing */
+  sourceMetersPerPx: number;
+  outputMetersPerPx: number;
+  estimatedBytes: number;
+}
+
+/**
+ * Resolve the output grid, zoom and tile range for `params` without fetching.
+ * Auto zoom takes the coarsest zoom whose source pixels are no larger than
+ * the output cells, so nothing is upsampled and no excess tiles are fetched.
+ * Bounds past the Mercator limit give meaningless ranges; check
+ * checkMercatorLatitudes(plan.bbox) before using them.
+ */
+export function planTiles(params: TilePlanParams): TilePlan {
+  const area = params.bbox ? bboxToArea(params.bbox) : params;
+  const bbox = localAreaBbox(area);
+  const { width, height } = outputGridSize(area.areaWidthKm, area.areaHeightKm, params.outputPx);
+  const outputMetersPerPx = (area.areaWidthKm * 1000) / width;
+  const { tileSize } = params.source;
+
+  let zoom = AUTO_ZOOM_MAX;
+  if (params.zoom !== "auto") {
+    zoom = params.zoom;
+  } else {
+    for (let z = AUTO_ZOOM_MIN; z <= AUTO_ZOOM_MAX; z++) {
+      if (tileMetersPerPixel(z, area.centerLat, tileSize) <= outputMetersPerPx) {
+        zoom = z;
+        break;
+      }
+    }
+  }
+
+  // Across the antimeridian the east edge is unwrapped past 180°, so tile
+  // columns run past n - 1 and wrap back to 0 when fetched.
+  const n = 1 << zoom;
+  const txMin = lonToX(bbox.west, n);
+  const txMax = Math.min(lonToX(bbox.west + lonSpan(bbox), n), txMin + n - 1);
+  const tyMin = latToY(bbox.north, n);
+  const tyMax = latToY(bbox.south, n);
+  const tileCount = (txMax - txMin + 1) * (tyMax - tyMin + 1);
+
+  return {
+    area,
+    bbox,
+    zoom,
+    txMin,
+    txMax,
+    tyMin,
+    tyMax,
+    tileCount,
+    width,
+    height,
+    sourceMetersPerPx: tileMetersPerPixel(zoom, area.centerLat, tileSize),
+    outputMetersPerPx,
+    estimatedBytes: tileCount * estimateTileBytes(params.source),
+  };
+}
+
+/** Output grid dimensions: `outputPx` along the longer side of the area */
+export function outputGridSize(areaWidthKm: number, areaHeightKm: number, outputPx: number) {
+  const longer = Math.max(areaWidthKm, areaHeightKm);
+  return {
+    width: Math.max(2, Math.round((outputPx * areaWidthKm) / longer)),
+    height: Math.max(2, Math.round((outputPx * areaHeightKm) / longer)),
+  };
+}
+
+// ── Fetch + decode a single elevation tile ────────────────────────
 async function fetchAndDecodeTile(
+  source: ElevationSource,
   z: number,
   x: number,
-  y: number
-): Promise<{ elev: Float32Array; width: number; height: number }> {
-  const url = `https://s3.amazonaws.com/elevation-tiles-prod/terrarium/${z}/${x}/${y}.png`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Tile ${z}/${x}/${y} → ${res.status}`);
-  const blob = await res.blob();
-  const bmp = await createImageBitmap(blob);
-
-  const canvas = new OffscreenCanvas(bmp.width, bmp.height);
-  const ctx = canvas.getContext("2d")!;
-  ctx.drawImage(bmp, 0, 0);
-  const { data, width, height } = ctx.getImageData(0, 0, bmp.width, bmp.height);
-
-  const elev = new Float32Array(width * height);
-  for (let i = 0; i < elev.length; i++) {
-    const off = i * 4;
-    elev[i] = data[off] * 256 + data[off + 1] + data[off + 2] / 256 - 32768;
+  y: number,
+  signal?: AbortSignal
+): Promise<DecodedTile> {
+  const res = await fetch(tileUrl(source, z, x, y), { signal });
+  if (!res.ok) throw new HttpStatusError(`Tile ${z}/${x}/${y} → ${res.status}`, res.status);
+  return decodeTileResponse(res, source);
+}
+
+interface TileLoadContext {
+  source: ElevationSource;
+  retries: number;
+  signal?: AbortSignal;
+  onProgress?: (msg: string) => void;
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+// Cache failures (quota, private mode, blocked storage) fall back to the network.
+async function loadTile(ctx: TileLoadContext, z: number, x: number, y: number): Promise<DecodedTile> {
+  const { source, signal } = ctx;
+  const key = tileCacheKey(source, z, x, y);
+  try {
+    const cached = await getCachedTile(key);
+    if (cached) {
+      ctx.cacheHits++;
+      return cached;
+    }
+  } catch {
+    /* treat as a miss */
   }
-  return { elev, width, height };
+  ctx.cacheMisses++;
+  const tile = await withRetry(() => fetchAndDecodeTile(source, z, x, y, signal), {
+    retries: ctx.retries,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    signal,
+    onRetry: (attempt, delayMs, err) =>
+      ctx.onProgress?.(
+        `Tile ${z}/${x}/${y} failed (${err instanceof Error ? err.message : String(err)}), retry ${attempt}/${ctx.retries} in ${(delayMs / 1000).toFixed(1)} s`
+      ),
+  });
+  try {
+    await putCachedTile(key, tile);
+  } catch {
+    /* tile is still usable without being cached */
+  }
+  return tile;
 }
 
 // ── Main pipeline ─────────────────────────────────────────────────
 export async function generateHeightmap(
   params: TerrainParams,
-  onProgress?: (msg: string) => void
+  onProgress?: (msg: string) => void,
+  options: HeightmapOptions = {}
 ): Promise<HeightmapResult> {
-  const { centerLat, centerLon, areaKm, outputPx, zoom } = params;
-
-  const KM_PER_DEG_LAT = 111.32;
-  const KM_PER_DEG_LON = 111.32 * Math.cos((centerLat * Math.PI) / 180);
-  const halfSpanLat = areaKm / 2 / KM_PER_DEG_LAT;
-  const halfSpanLon = areaKm / 2 / KM_PER_DEG_LON;
-
-  const bbox = {
-    west: centerLon - halfSpanLon,
-    east: centerLon + halfSpanLon,
-    south: centerLat - halfSpanLat,
-    north: centerLat + halfSpanLat,
-  };
+  const { source, missingData, resampleKernel } = params;
+  const { signal, onTileProgress, concurrency = 6, retries = 3 } = options;
+
+  // An explicit bbox wins; its extents are measured at its center latitude.
+  // The output is a metric rectangle on the local projection around the
+  // center; tiles are fetched for whatever lat/lon bounds it covers.
+  const plan = planTiles(params);
+  const { bbox, zoom, txMin, txMax, tyMin, tyMax } = plan;
+
+  const latitudeError = checkMercatorLatitudes(bbox);
+  if (latitudeError) throw new Error(latitudeError);
+  if (params.zoom === "auto") {
+    onProgress?.(
+      `Auto zoom ${zoom}: source ${plan.sourceMetersPerPx.toFixed(1)} m/px for ${plan.outputMetersPerPx.toFixed(1)} m/px output`
+    );
+  }
 
   const n = 1 << zoom;
-  const txMin = lonToX(bbox.west, n);
-  const txMax = lonToX(bbox.east, n);
-  const tyMin = latToY(bbox.north, n);
-  const tyMax = latToY(bbox.south, n);
   const tw = txMax - txMin + 1;
   const th = tyMax - tyMin + 1;
-  const TS = 256;
+  const TS = source.tileSize;
 
+  const totalTiles = tw * th;
   const tFetch = performance.now();
-  onProgress?.(`Fetching ${tw * th} tiles (zoom ${zoom})…`);
+  onProgress?.(`Source: ${describeElevationSource(source)}`);
+  onProgress?.(`Fetching ${totalTiles} tiles (zoom ${zoom}, ${concurrency} at a time)…`);
+  if (crossesAntimeridian(bbox)) {
+    onProgress?.("Area crosses the antimeridian; stitching tiles across ±180°");
+  }
 
   // Download & stitch
   const fullW = tw * TS;
   const fullH = th * TS;
-  const full = new Float32Array(fullW * fullH);
+  // Tiles that fail in fill mode are left as NaN holes
+  const full = new Float32Array(fullW * fullH).fill(NaN);
 
-  const promises: Promise<void>[] = [];
+  const ctx: TileLoadContext = { source, retries, signal, onProgress, cacheHits: 0, cacheMisses: 0 };
+  let tilesDone = 0;
+  let tilesFailed = 0;
+  onTileProgress?.(0, totalTiles);
+  const tasks: Array<() => Promise<void>> = [];
   for (let ty = tyMin; ty <= tyMax; ty++) {
     for (let tx = txMin; tx <= txMax; tx++) {
-      promises.push(
-        fetchAndDecodeTile(zoom, tx, ty).then(({ elev, width, height }) => {
-          const ox = (tx - txMin) * TS;
-          const oy = (ty - tyMin) * TS;
-          for (let y = 0; y < height; y++)
-            for (let x = 0; x < width; x++)
-              full[(oy + y) * fullW + (ox + x)] = elev[y * width + x];
-        })
-      );
+      const tileX = tx % n;
+      tasks.push(async () => {
+        let tile: DecodedTile;
+        try {
+          tile = await loadTile(ctx, zoom, tileX, ty);
+          if (tile.width !== TS || tile.height !== TS) {
+            throw new Error(
+              `Tile ${zoom}/${tileX}/${ty} is ${tile.width}×${tile.height}, expected ${TS}×${TS}`
+            );
+          }
+        } catch (err) {
+          if (missingData === "fail" || isAbortError(err)) throw err;
+          tilesFailed++;
+          onProgress?.(
+            `Tile ${zoom}/${tileX}/${ty} skipped: ${err instanceof Error ? err.message : String(err)}`
+          );
+          onTileProgress?.(++tilesDone, totalTiles);
+          return;
+        }
+        const { elev, width, height } = tile;
+        const ox = (tx - txMin) * TS;
+        const oy = (ty - tyMin) * TS;
+        for (let y = 0; y < height; y++)
+          for (let x = 0; x < width; x++)
+            full[(oy + y) * fullW + (ox + x)] = elev[y * width + x];
+        onTileProgress?.(++tilesDone, totalTiles);
+      });
     }
   }
-  await Promise.all(promises);
+  await runPool(tasks, concurrency, signal);
+  onProgress?.(`Tile cache: ${ctx.cacheHits} hits, ${ctx.cacheMisses} misses`);
 
   onProgress?.(`Tiles fetched (${((performance.now() - tFetch) / 1000).toFixed(1)} s). Cropping…`);
 
-  // Pixel coords of bbox inside the tile grid
+  // Tile grid bounds
   const gridW = xToLon(txMin, n);
   const gridE = xToLon(txMax + 1, n);
-  const gridN = yToLat(tyMin, n);
-  const gridS = yToLat(tyMax + 1, n);
 
-  const cropL = Math.round(((bbox.west - gridW) / (gridE - gridW)) * fullW);
-  const cropR = Math.round(((bbox.east - gridW) / (gridE - gridW)) * fullW);
-  const cropT = Math.round(((gridN - bbox.north) / (gridN - gridS)) * fullH);
-  const cropB = Math.round(((gridN - bbox.south) / (gridN - gridS)) * fullH);
-  const cw = cropR - cropL;
-  const ch = cropB - cropT;
+  // Longitudes are measured east of the bbox west edge so the antimeridian needs no special case
+  const coords = mapGridCells(plan, (lat, lon) => [
+    ((bbox.west + lonOffset(lon, bbox) - gridW) / (gridE - gridW)) * fullW,
+    (mercatorY(lat) * n - tyMin) * TS,
+  ]);
+
+  return sampleHeightmap(full, fullW, fullH, coords, plan, {
+    missingData,
+    resampleKernel,
+    fillNote: tilesFailed > 0 ? `${tilesFailed} of ${totalTiles} tiles failed` : undefined,
+    onProgress,
+  });
+}
+
+/** Output grid: a metric rectangle around `area`'s center on the local projection */
+export interface OutputGrid {
+  area: AreaExtent;
+  /** Lat/lon bounds enclosing the rectangle */
+  bbox: BBox;
+  width: number;
+  height: number;
+}
 
-  // Extract + find range
+/**
+ * Position of every output cell center in a source grid, as (x, y) pairs in
+ * pixel-edge coordinates (row-major from the north-west corner).
+ * `toSource` maps a lat/lon to the source grid.
+ */
+export function mapGridCells(
+  grid: OutputGrid,
+  toSource: (lat: number, lon: number) => [number, number]
+): Float64Array {
+  const { area, width, height } = grid;
+  const proj = localProjection(area.centerLat, area.centerLon);
+  const coords = new Float64Array(width * height * 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [lat, lon] = proj.inverse(
+        ((x + 0.5) / width - 0.5) * area.areaWidthKm,
+        (0.5 - (y + 0.5) / height) * area.areaHeightKm
+      );
+      const [sx, sy] = toSource(lat, lon);
+      const i = (y * width + x) * 2;
+      coords[i] = sx;
+      coords[i + 1] = sy;
+    }
+  }
+  return coords;
+}
+
+export interface SampleOptions {
+  missingData: MissingDataMode;
+  resampleKernel: ResampleKernel;
+  /** Appended to the infill log line */
+  fillNote?: string;
+  onProgress?: (msg: string) => void;
+}
+
+/**
+ * Turn a `sw`×`sh` source grid (meters, NaN = NoData) into a heightmap on
+ * `grid`, where `coords` (see mapGridCells) places each output cell in the
+ * source. Holes are filled or rejected per `missingData`; output cells that
+ * land outside the source are treated as holes too.
+ */
+export function sampleHeightmap(
+  src: Float32Array,
+  sw: number,
+  sh: number,
+  coords: Float64Array,
+  grid: OutputGrid,
+  options: SampleOptions
+): HeightmapResult {
+  const { missingData, resampleKernel, fillNote, onProgress } = options;
+  const { area, bbox, width: outW, height: outH } = grid;
+  const { areaWidthKm, areaHeightKm } = area;
+
+  let cropL = Infinity;
+  let cropR = -Infinity;
+  let cropT = Infinity;
+  let cropB = -Infinity;
+  let outsideCount = 0;
+  const outside = new Uint8Array(outW * outH);
+  for (let i = 0; i < outside.length; i++) {
+    const x = coords[i * 2];
+    const y = coords[i * 2 + 1];
+    if (x < 0 || x > sw || y < 0 || y > sh) {
+      outside[i] = 1;
+      outsideCount++;
+      continue;
+    }
+    cropL = Math.min(cropL, x);
+    cropR = Math.max(cropR, x);
+    cropT = Math.min(cropT, y);
+    cropB = Math.max(cropB, y);
+  }
+  if (outsideCount === outside.length) throw new Error("Area does not overlap the elevation data");
+  if (outsideCount > 0 && missingData === "fail") {
+    throw new Error(
+      "Area extends beyond the elevation data; shrink the area or choose a fill method under Missing data"
+    );
+  }
+
+  // Working window: the crop rounded outwards plus room for the widest kernel
+  const pad = Math.ceil(3 * Math.max(1, (cropR - cropL) / outW, (cropB - cropT) / outH)) + 1;
+  const winL = Math.max(0, Math.floor(cropL) - pad);
+  const winR = Math.min(sw, Math.ceil(cropR) + pad);
+  const winT = Math.max(0, Math.floor(cropT) - pad);
+  const winB = Math.min(sh, Math.ceil(cropB) + pad);
+  const cw = winR - winL;
+  const ch = winB - winT;
+
+  // Extract
   const cropped = new Float32Array(cw * ch);
-  let lo = Infinity;
-  let hi = -Infinity;
   for (let y = 0; y < ch; y++) {
     for (let x = 0; x < cw; x++) {
-      const v = full[(cropT + y) * fullW + (cropL + x)];
-      cropped[y * cw + x] = v;
-      if (v < lo) lo = v;
-      if (v > hi) hi = v;
+      cropped[y * cw + x] = src[(winT + y) * sw + (winL + x)];
     }
   }
 
-  // Normalize to 0–255
-  const range = hi - lo || 1;
-  const u8 = new Uint8Array(cw * ch);
-  for (let i = 0; i < cropped.length; i++) {
-    u8[i] = Math.round(((cropped[i] - lo) / range) * 255);
+  // Fill failed tiles / NoData before resampling
+  let holeMask: Uint8Array | null = null;
+  if (missingData === "fail") {
+    if (cropped.some((v) => !Number.isFinite(v))) {
+      throw new Error(
+        "Area contains NoData cells; choose a fill method under Missing data to interpolate them"
+      );
+    }
+  } else {
+    const { mask, filledCount } = fillNoData(cropped, cw, ch, missingData);
+    if (filledCount > 0) {
+      holeMask = mask;
+      onProgress?.(
+        `Filled ${filledCount} of ${cropped.length} cells (${((filledCount / cropped.length) * 100).toFixed(1)}%) by ${INFILL_LABELS[missingData]} infill` +
+          (fillNote ? ` — ${fillNote}` : "")
+      );
+    }
   }
 
-  // Resize to outputPx using OffscreenCanvas
-  onProgress?.(`Resizing to ${outputPx}×${outputPx}…`);
-
-  // Create source canvas with grayscale data as RGBA
-  const srcCanvas = new OffscreenCanvas(cw, ch);
-  const srcCtx = srcCanvas.getContext("2d")!;
-  const srcImg = srcCtx.createImageData(cw, ch);
-  for (let i = 0; i < u8.length; i++) {
-    const v = u8[i];
-    srcImg.data[i * 4] = v;
-    srcImg.data[i * 4 + 1] = v;
-    srcImg.data[i * 4 + 2] = v;
-    srcImg.data[i * 4 + 3] = 255;
+  // Window-relative pixel-center coordinates
+  const local = new Float64Array(coords.length);
+  for (let i = 0; i < coords.length; i += 2) {
+    local[i] = coords[i] - winL - 0.5;
+    local[i + 1] = coords[i + 1] - winT - 0.5;
+  }
+  onProgress?.(
+    `Reprojecting onto a ${areaWidthKm.toFixed(1)}×${areaHeightKm.toFixed(1)} km local grid → ${outW}×${outH} (${RESAMPLE_KERNEL_LABELS[resampleKernel]})…`
+  );
+  const elevation = warpGrid(cropped, cw, ch, local, outW, outH, resampleKernel);
+  let filledMask = holeMask ? warpMask(holeMask, cw, ch, local, outW, outH) : undefined;
+
+  // Cells beyond the source are interpolated from the covered part of the grid
+  if (outsideCount > 0 && missingData !== "fail") {
+    for (let i = 0; i < elevation.length; i++) if (outside[i]) elevation[i] = NaN;
+    fillNoData(elevation, outW, outH, missingData);
+    filledMask = filledMask ? filledMask.map((v, i) => v | outside[i]) : outside;
+    onProgress?.(
+      `Filled ${outsideCount} cells (${((outsideCount / elevation.length) * 100).toFixed(1)}%) beyond the elevation data by ${INFILL_LABELS[missingData]} infill`
+    );
   }
-  srcCtx.putImageData(srcImg, 0, 0);
-
-  // Resize
-  const dstCanvas = new OffscreenCanvas(outputPx, outputPx);
-  const dstCtx = dstCanvas.getContext("2d")!;
-  dstCtx.imageSmoothingEnabled = true;
-  dstCtx.imageSmoothingQuality = "high";
-  dstCtx.drawImage(srcCanvas, 0, 0, outputPx, outputPx);
-
-  const dstData = dstCtx.getImageData(0, 0, outputPx, outputPx);
-  const heightmap = new Uint8Array(outputPx * outputPx);
-  for (let i = 0; i < heightmap.length; i++) {
-    heightmap[i] = dstData.data[i * 4]; // R channel
+
+  // Find range
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = 0; i < elevation.length; i++) {
+    const v = elevation[i];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
   }
+  const heightmap = elevationToGrayscale(elevation, lo, hi);
 
   onProgress?.(
     `Elevation: ${lo.toFixed(0)} m – ${hi.toFixed(0)} m (range ${(hi - lo).toFixed(0)} m)`
   );
 
-  return { heightmap, width: outputPx, height: outputPx, elevMin: lo, elevMax: hi };
+  return {
+    elevation,
+    heightmap,
+    width: outW,
+    height: outH,
+    elevMin: lo,
+    elevMax: hi,
+    areaWidthKm,
+    areaHeightKm,
+    bbox,
+    centerLat: area.centerLat,
+    centerLon: area.centerLon,
+    filledMask,
+  };
 }
@@ -0,0 +1,203 @@
+// Persistent decoded-tile cache in IndexedDB with a byte budget and LRU eviction
+
+import type { DecodedTile, ElevationSource } from "./elevation-source";
+
+const DB_NAME = "terrain-tile-cache";
+const DB_VERSION = 1;
+// Tile payloads and their bookkeeping live in separate stores so eviction
+// can walk the (small) entry records without loading elevation buffers.
+const TILE_STORE = "tiles";
+const ENTRY_STORE = "entries";
+const BUDGET_STORAGE_KEY = "terrain-tile-cache-budget";
+
+export const DEFAULT_CACHE_BUDGET_BYTES = 200 * 1024 * 1024;
+
+interface TileRecord {
+  key: string;
+  width: number;
+  height: number;
+  elev: ArrayBuffer;
+}
+
+interface EntryRecord {
+  key: string;
+  bytes: number;
+  lastAccess: number;
+}
+
+export interface TileCacheStats {
+  tileCount: number;
+  bytes: number;
+  budgetBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Eviction reads every entry record, so the writes of one fetch batch share a
+// single pass scheduled shortly after the first of them.
+const EVICT_DELAY_MS = 1000;
+let evictTimer: ReturnType<typeof setTimeout> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is unavailable"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(TILE_STORE, { keyPath: "key" });
+        const entries = db.createObjectStore(ENTRY_STORE, { keyPath: "key" });
+        entries.createIndex("lastAccess", "lastAccess");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call instead of caching the failure forever.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Tiles from sources that differ in URL, encoding or size never share entries */
+export function tileCacheKey(source: ElevationSource, z: number, x: number, y: number): string {
+  return `${source.encoding}|${source.tileSize}|${source.urlTemplate}|${z}/${x}/${y}`;
+}
+
+export function getTileCacheBudget(): number {
+  try {
+    const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+    const parsed = stored == null ? NaN : Number(stored);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_BUDGET_BYTES;
+  } catch {
+    return DEFAULT_CACHE_BUDGET_BYTES;
+  }
+}
+
+export async function setTileCacheBudget(bytes: number): Promise<void> {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(bytes));
+  } catch {
+    /* storage may be blocked; the budget then only applies to this call */
+  }
+  await evictToBudget(bytes);
+}
+
+export async function getCachedTile(key: string): Promise<DecodedTile | null> {
+  if (getTileCacheBudget() === 0) return null;
+  const db = await openDb();
+  const tx = db.transaction([TILE_STORE, ENTRY_STORE], "readwrite");
+  const record = await promisify<TileRecord | undefined>(tx.objectStore(TILE_STORE).get(key));
+  if (record) {
+    tx.objectStore(ENTRY_STORE).put({
+      key,
+      bytes: record.elev.byteLength,
+      lastAccess: Date.now(),
+    } satisfies EntryRecord);
+  }
+  await transactionDone(tx);
+  if (!record) return null;
+  return { elev: new Float32Array(record.elev), width: record.width, height: record.height };
+}
+
+export async function putCachedTile(key: string, tile: DecodedTile): Promise<void> {
+  const budget = getTileCacheBudget();
+  const bytes = tile.elev.byteLength;
+  if (bytes > budget) return;
+
+  const db = await openDb();
+  const tx = db.transaction([TILE_STORE, ENTRY_STORE], "readwrite");
+  tx.objectStore(TILE_STORE).put({
+    key,
+    width: tile.width,
+    height: tile.height,
+    elev: tile.elev.buffer.slice(tile.elev.byteOffset, tile.elev.byteOffset + bytes) as ArrayBuffer,
+  } satisfies TileRecord);
+  tx.objectStore(ENTRY_STORE).put({ key, bytes, lastAccess: Date.now() } satisfies EntryRecord);
+  await transactionDone(tx);
+  scheduleEviction();
+}
+
+function scheduleEviction() {
+  if (evictTimer != null) return;
+  evictTimer = setTimeout(() => {
+    evictTimer = null;
+    evictToBudget(getTileCacheBudget()).catch(() => {
+      /* the next write schedules another pass */
+    });
+  }, EVICT_DELAY_MS);
+}
+
+async function evictToBudget(budget: number): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction([TILE_STORE, ENTRY_STORE], "readwrite");
+  const entries = tx.objectStore(ENTRY_STORE);
+  const tiles = tx.objectStore(TILE_STORE);
+
+  const all = await promisify<EntryRecord[]>(entries.getAll());
+  let total = all.reduce((sum, e) => sum + e.bytes, 0);
+  let evicted = 0;
+
+  if (total > budget) {
+    // Oldest access first
+    await new Promise<void>((resolve, reject) => {
+      const cursorReq = entries.index("lastAccess").openCursor();
+      cursorReq.onerror = () => reject(cursorReq.error);
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || total <= budget) {
+          resolve();
+          return;
+        }
+        const entry = cursor.value as EntryRecord;
+        tiles.delete(entry.key);
+        cursor.delete();
+        total -= entry.bytes;
+        evicted++;
+        cursor.continue();
+      };
+    });
+  }
+
+  await transactionDone(tx);
+  return evicted;
+}
+
+export async function getTileCacheStats(): Promise<TileCacheStats> {
+  const db = await openDb();
+  const tx = db.transaction(ENTRY_STORE, "readonly");
+  const all = await promisify<EntryRecord[]>(tx.objectStore(ENTRY_STORE).getAll());
+  await transactionDone(tx);
+  return {
+    tileCount: all.length,
+    bytes: all.reduce((sum, e) => sum + e.bytes, 0),
+    budgetBytes: getTileCacheBudget(),
+  };
+}
+
+export async function clearTileCache(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([TILE_STORE, ENTRY_STORE], "readwrite");
+  tx.objectStore(TILE_STORE).clear();
+  tx.objectStore(ENTRY_STORE).clear();
+  await transactionDone(tx);
+}
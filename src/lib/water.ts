@@ -0,0 +1,177 @@
+// Sea level, bathymetry and lake handling on elevation grids
+
+export type WaterMode = "off" | "flatten" | "bathymetry";
+
+export const WATER_MODE_LABELS: Record<WaterMode, string> = {
+  off: "Off",
+  flatten: "Flat water surface",
+  bathymetry: "Keep bathymetry",
+};
+
+export interface WaterSettings {
+  waterMode: WaterMode;
+  /** Meters; cells below it are water */
+  seaLevel: number;
+  /** Z exaggeration for depths below sea level in "bathymetry" mode */
+  bathymetryExag: number;
+  flattenLakes: boolean;
+}
+
+export interface WaterStats {
+  seaCells: number;
+  lakeCount: number;
+  lakeCells: number;
+}
+
+export interface WaterResult extends WaterStats {
+  elevation: Float32Array;
+  /** 1 = sea or lake; null when nothing is water */
+  waterMask: Uint8Array | null;
+}
+
+/** Neighbours closer than this count as level */
+const LAKE_LEVEL_TOLERANCE_M = 0.25;
+/** A level region with more relief than this is a gentle slope, not a lake */
+const LAKE_MAX_RELIEF_M = 1;
+/** Smallest lake, as a share of the grid (and at least LAKE_MIN_CELLS) */
+const LAKE_MIN_FRACTION = 0.0005;
+const LAKE_MIN_CELLS = 16;
+
+export function describeWater(settings: WaterSettings): string | undefined {
+  const parts: string[] = [];
+  if (settings.waterMode === "flatten") {
+    parts.push(`sea level ${settings.seaLevel} m, flat water surface`);
+  } else if (settings.waterMode === "bathymetry") {
+    parts.push(`sea level ${settings.seaLevel} m, bathymetry ${settings.bathymetryExag}×`);
+  }
+  if (settings.flattenLakes) parts.push("lakes flattened");
+  return parts.length > 0 ? parts.join(", ") : undefined;
+}
+
+/**
+ * Level regions above sea level: 4-connected cells whose neighbours are all
+ * within LAKE_LEVEL_TOLERANCE_M, large enough and with little relief.
+ * Returns the label grid (0 = none) and the number of lakes.
+ */
+function detectLakes(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  seaLevel: number
+): { labels: Int32Array; count: number; minElevation: number[] } {
+  const level = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const v = elevation[i];
+      if (!(v > seaLevel)) continue;
+      const near = (j: number) => Math.abs(elevation[j] - v) <= LAKE_LEVEL_TOLERANCE_M;
+      if (
+        (x === 0 || near(i - 1)) &&
+        (x === width - 1 || near(i + 1)) &&
+        (y === 0 || near(i - width)) &&
+        (y === height - 1 || near(i + width))
+      ) {
+        level[i] = 1;
+      }
+    }
+  }
+
+  const minCells = Math.max(LAKE_MIN_CELLS, Math.round(width * height * LAKE_MIN_FRACTION));
+  const labels = new Int32Array(width * height);
+  const minElevation: number[] = [0];
+  const stack: number[] = [];
+  const region: number[] = [];
+  let count = 0;
+  for (let start = 0; start < level.length; start++) {
+    if (!level[start] || labels[start] !== 0) continue;
+    // Flood the region with a provisional label, then keep or drop it
+    region.length = 0;
+    labels[start] = -1;
+    stack.push(start);
+    let lo = Infinity;
+    let hi = -Infinity;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      region.push(i);
+      lo = Math.min(lo, elevation[i]);
+      hi = Math.max(hi, elevation[i]);
+      const x = i % width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i + width < level.length ? i + width : -1,
+      ];
+      for (const j of neighbours) {
+        if (j >= 0 && level[j] && labels[j] === 0) {
+          labels[j] = -1;
+          stack.push(j);
+        }
+      }
+    }
+    // Dropped regions keep -1 so they are not flooded again
+    if (region.length >= minCells && hi - lo <= LAKE_MAX_RELIEF_M) {
+      count++;
+      minElevation.push(lo);
+      for (const i of region) labels[i] = count;
+    }
+  }
+  for (let i = 0; i < labels.length; i++) if (labels[i] < 0) labels[i] = 0;
+  return { labels, count, minElevation };
+}
+
+/**
+ * Apply sea level and lake handling. Below sea level, "flatten" clamps to a
+ * flat surface at `seaLevel`; "bathymetry" rescales depths so that, after
+ * the model's `zExag`, they print at `bathymetryExag`. Detected lakes are
+ * leveled to their lowest cell.
+ */
+export function applyWater(
+  elevation: Float32Array,
+  width: number,
+  height: number,
+  settings: WaterSettings,
+  zExag: number
+): WaterResult {
+  const { waterMode, seaLevel, bathymetryExag, flattenLakes } = settings;
+  const out = Float32Array.from(elevation);
+  const mask = new Uint8Array(width * height);
+  let seaCells = 0;
+
+  if (waterMode !== "off") {
+    const depthScale = waterMode === "bathymetry" && zExag > 0 ? bathymetryExag / zExag : 0;
+    for (let i = 0; i < out.length; i++) {
+      if (out[i] < seaLevel) {
+        out[i] = seaLevel + (out[i] - seaLevel) * depthScale;
+        mask[i] = 1;
+        seaCells++;
+      }
+    }
+  }
+
+  let lakeCount = 0;
+  let lakeCells = 0;
+  if (flattenLakes) {
+    // Without sea handling every level region counts, whatever its elevation
+    const floor = waterMode === "off" ? -Infinity : seaLevel;
+    const lakes = detectLakes(out, width, height, floor);
+    lakeCount = lakes.count;
+    for (let i = 0; i < out.length; i++) {
+      const label = lakes.labels[i];
+      if (label > 0) {
+        out[i] = lakes.minElevation[label];
+        mask[i] = 1;
+        lakeCells++;
+      }
+    }
+  }
+
+  return {
+    elevation: out,
+    waterMask: seaCells + lakeCells > 0 ? mask : null,
+    seaCells,
+    lakeCount,
+    lakeCells,
+  };
+}
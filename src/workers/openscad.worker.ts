@@ -1,12 +1,14 @@
 import { generateScad, heightmapToDat, type ScadParams } from "../lib/scad-template";
 import { compileScadToStl } from "../lib/openscad";
+import { heightmapToStl, nativeMeshUnsupported, type MeshBackend } from "../lib/mesh";
 
 export interface WorkerRequest {
   runId: number;
-  heightmap: Uint8Array;
+  elevation: Float32Array;
   width: number;
   height: number;
   params: Omit<ScadParams, "elevMin" | "elevMax"> & { elevMin: number; elevMax: number };
+  backend: MeshBackend;
 }
 
 type WorkerPayload =
@@ -19,16 +21,37 @@ type WorkerPayload =
 export type WorkerResponse = WorkerPayload & { runId: number };
 
 self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
-  const { runId, heightmap, width, height, params } = e.data;
+  const { runId, elevation, width, height, params, backend } = e.data;
   const post = (msg: WorkerPayload, transfer?: Transferable[]) =>
     (self as any).postMessage({ runId, ...msg }, transfer ?? []);
 
   try {
     const t0 = performance.now();
 
+    // The SCAD code documents the model either way
+    const unsupported = backend === "native" ? nativeMeshUnsupported(params.footprint, Boolean(params.outline)) : null;
+    if (backend === "native" && !unsupported) {
+      post({ type: "scadCode", code: generateScad(params) });
+      post({ type: "status", message: "Building mesh…" });
+      const stl = heightmapToStl(elevation, width, height, params);
+      const sizeMB = (stl.length / (1024 * 1024)).toFixed(1);
+      post({
+        type: "log",
+        message: `Native mesh: ${((stl.length - 84) / 50).toLocaleString()} triangles, STL: ${sizeMB} MB (${((performance.now() - t0) / 1000).toFixed(1)} s)`,
+      });
+      post({ type: "result", stl }, [stl.buffer]);
+      return;
+    }
+    if (unsupported) post({ type: "log", message: `${unsupported}; compiling with OpenSCAD` });
+
     post({ type: "status", message: "Generating heightmap data…" });
     const tDat = performance.now();
-    const datContent = heightmapToDat(heightmap, width, height);
+    const datContent = heightmapToDat(
+      elevation,
+      width,
+      height,
+      params.datum?.elevation ?? params.elevMin
+    );
     post({
       type: "log",
       message: `.dat generated: ${(datContent.length / 1024).toFixed(0)} KB (${(performance.now() - tDat).toFixed(0)} ms)`,